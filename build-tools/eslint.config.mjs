@@ -17,7 +17,12 @@ export default [
     },
   },
   {
-    files: ['**/package.json', '**/package.json', '**/executors.json'],
+    files: [
+      '**/package.json',
+      '**/package.json',
+      '**/executors.json',
+      '**/generators.json',
+    ],
     rules: {
       '@nx/nx-plugin-checks': 'error',
     },
@@ -0,0 +1,318 @@
+import { ExecutorContext, ProjectGraphProjectNode } from '@nx/devkit';
+import { runExecutor } from '@nx/devkit';
+import { promisify } from 'util';
+
+import executor from './build-affected-images';
+
+jest.mock('@nx/devkit', () => ({
+  runExecutor: jest.fn(),
+}));
+
+jest.mock('child_process', () => ({
+  exec: jest.fn(),
+  execFile: jest.fn(),
+}));
+
+jest.mock('util', () => ({
+  promisify: jest.fn(),
+}));
+
+const mockRunExecutor = runExecutor as jest.MockedFunction<typeof runExecutor>;
+const mockPromisify = promisify as jest.MockedFunction<typeof promisify>;
+
+function project(
+  name: string,
+  root: string,
+  options: Partial<ProjectGraphProjectNode['data']> = {},
+  type: ProjectGraphProjectNode['type'] = 'app'
+): ProjectGraphProjectNode {
+  return {
+    name,
+    type,
+    data: {
+      root,
+      targets: {
+        container: { executor: '@mschoenbo/nx-build-tools:tag-and-build' },
+      },
+      ...options,
+    },
+  };
+}
+
+describe('BuildAffectedImages Executor', () => {
+  let mockContext: ExecutorContext;
+  let mockPromisifiedExec: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+
+    mockPromisifiedExec = jest.fn();
+    mockPromisify.mockReturnValue(mockPromisifiedExec);
+
+    mockContext = {
+      root: '/test/root',
+      cwd: process.cwd(),
+      isVerbose: false,
+      projectGraph: {
+        nodes: {
+          web: project('web', 'apps/web', { tags: ['type:image'] }),
+          api: project('api', 'apps/api'),
+          worker: project('worker', 'apps/worker', { targets: {} }),
+          shared: project('shared', 'libs/shared', {}, 'lib'),
+        },
+        dependencies: {
+          web: [{ source: 'web', target: 'shared', type: 'static' }],
+          api: [],
+          worker: [],
+          shared: [],
+        },
+      },
+      projectsConfigurations: { projects: {}, version: 2 },
+      nxJsonConfiguration: {},
+    };
+
+    mockRunExecutor.mockImplementation(async ({ project }) =>
+      (async function* () {
+        yield {
+          success: true,
+          version: '1.0.0',
+          tags: [`repo/${project}:1.0.0`, `repo/${project}:sha-abc1234`],
+        };
+      })()
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const builtProjects = () =>
+    mockRunExecutor.mock.calls.map(([{ project }]) => project);
+
+  it('should build every application with a tag-and-build target', async () => {
+    const result = await executor({}, mockContext);
+
+    expect(result.success).toBe(true);
+    expect(builtProjects()).toEqual(['api', 'web']);
+    expect(mockRunExecutor).toHaveBeenCalledWith(
+      { project: 'api', target: 'container' },
+      {},
+      mockContext
+    );
+  });
+
+  it('should filter projects by tag and pass overrides', async () => {
+    const result = await executor(
+      { projectTag: 'type:image', push: true, dryRun: true },
+      mockContext
+    );
+
+    expect(result.success).toBe(true);
+    expect(mockRunExecutor).toHaveBeenCalledTimes(1);
+    expect(mockRunExecutor).toHaveBeenCalledWith(
+      { project: 'web', target: 'container' },
+      { push: true, dryRun: true },
+      mockContext
+    );
+  });
+
+  it('should use the configured target name', async () => {
+    mockContext.projectGraph.nodes.worker.data.targets = {
+      image: { executor: 'nx:run-commands' },
+    };
+
+    await executor({ target: 'image' }, mockContext);
+
+    expect(mockRunExecutor).toHaveBeenCalledTimes(1);
+    expect(mockRunExecutor).toHaveBeenCalledWith(
+      { project: 'worker', target: 'image' },
+      {},
+      mockContext
+    );
+  });
+
+  it('should only build projects affected through their dependencies', async () => {
+    mockPromisifiedExec.mockResolvedValue({
+      stdout: 'libs/shared/src/index.ts\n',
+    });
+
+    const result = await executor(
+      { affected: true, base: 'origin/main' },
+      mockContext
+    );
+
+    expect(result.success).toBe(true);
+    expect(mockPromisifiedExec).toHaveBeenCalledWith('git', [
+      'diff',
+      '--name-only',
+      'origin/main...HEAD',
+    ]);
+    expect(builtProjects()).toEqual(['web']);
+  });
+
+  it('should build all projects when a file outside of projects changed', async () => {
+    mockPromisifiedExec.mockResolvedValue({ stdout: 'package-lock.json\n' });
+
+    await executor({ affected: true }, mockContext);
+
+    expect(builtProjects()).toEqual(['api', 'web']);
+  });
+
+  it('should not let a root project own the files outside of projects', async () => {
+    mockContext.projectGraph.nodes.root = project('root', '.');
+    mockPromisifiedExec.mockResolvedValue({ stdout: 'package-lock.json\n' });
+
+    await executor({ affected: true }, mockContext);
+
+    expect(builtProjects()).toEqual(['api', 'root', 'web']);
+  });
+
+  it('should succeed without building when nothing is affected', async () => {
+    mockPromisifiedExec.mockResolvedValue({ stdout: 'apps/worker/main.ts\n' });
+
+    const result = await executor({ affected: true }, mockContext);
+
+    expect(result).toEqual({ success: true, results: [] });
+    expect(mockRunExecutor).not.toHaveBeenCalled();
+  });
+
+  describe('targets that skip their build', () => {
+    // The target the configuration generator adds, with the dependsOn that
+    // Nx merges in from its targetDefaults.
+    beforeEach(() => {
+      mockContext.projectGraph.nodes.api.data.targets = {
+        build: { executor: '@nx/esbuild:esbuild' },
+        container: {
+          executor: '@mschoenbo/nx-build-tools:tag-and-build',
+          options: { skipBuild: true, context: '{workspaceRoot}' },
+          dependsOn: ['build', '^build'],
+        },
+      };
+    });
+
+    it('should run the build targets the image target depends on', async () => {
+      const result = await executor({}, mockContext);
+
+      expect(result.success).toBe(true);
+      expect(
+        mockRunExecutor.mock.calls.map(([{ project, target }]) =>
+          [project, target].join(':')
+        )
+      ).toEqual(['api:build', 'web:container', 'api:container']);
+      expect(console.warn).toHaveBeenCalledWith(
+        "Warning: 'api:container' depends on ^build of other projects, which are not run here. Build them before."
+      );
+    });
+
+    it('should not build the image when its build fails', async () => {
+      mockRunExecutor.mockImplementation(async ({ target }) =>
+        (async function* () {
+          yield { success: target !== 'build' };
+        })()
+      );
+
+      const result = (await executor({}, mockContext)) as {
+        success: boolean;
+        results: unknown[];
+      };
+
+      expect(result.success).toBe(false);
+      expect(result.results).toContainEqual(
+        expect.objectContaining({
+          project: 'api',
+          success: false,
+          error: "Build target 'build' failed",
+        })
+      );
+      expect(mockRunExecutor).not.toHaveBeenCalledWith(
+        { project: 'api', target: 'container' },
+        {},
+        mockContext
+      );
+    });
+  });
+
+  it('should limit the number of images built at the same time', async () => {
+    mockContext.projectGraph.nodes = Object.fromEntries(
+      ['a', 'b', 'c', 'd', 'e'].map((name) => [
+        name,
+        project(name, `apps/${name}`),
+      ])
+    );
+    let running = 0;
+    let maxRunning = 0;
+    mockRunExecutor.mockImplementation(async () =>
+      (async function* () {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        yield { success: true };
+      })()
+    );
+
+    const result = await executor({ parallel: 2 }, mockContext);
+
+    expect(result.success).toBe(true);
+    expect(mockRunExecutor).toHaveBeenCalledTimes(5);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should build all images and fail if any of them failed', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation();
+    mockRunExecutor.mockImplementation(async ({ project }) =>
+      (async function* () {
+        if (project === 'api') {
+          throw new Error('docker exploded');
+        }
+        yield { success: true, version: '1.0.0', tags: ['repo/web:1.0.0'] };
+      })()
+    );
+
+    const result = (await executor({}, mockContext)) as {
+      success: boolean;
+      results: unknown[];
+    };
+
+    expect(result.success).toBe(false);
+    expect(builtProjects()).toEqual(['api', 'web']);
+    expect(result.results).toEqual([
+      expect.objectContaining({
+        project: 'api',
+        success: false,
+        error: 'Error: docker exploded',
+      }),
+      expect.objectContaining({
+        project: 'web',
+        success: true,
+        metadata: { version: '1.0.0', tags: ['repo/web:1.0.0'] },
+      }),
+    ]);
+    const summary = logSpy.mock.calls.map(([message]) => String(message));
+    expect(summary).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(/^Project\s+Status\s+Version\s+Tags\s+Duration/),
+        expect.stringMatching(/^api\s+FAILED\s+-\s+-/),
+        expect.stringMatching(/^web\s+built\s+1\.0\.0\s+1/),
+      ])
+    );
+  });
+
+  it('should report images that were only tagged as cached', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation();
+    mockRunExecutor.mockImplementation(async () =>
+      (async function* () {
+        yield { success: true, version: '1.0.0', tags: [], cached: true };
+      })()
+    );
+
+    await executor({}, mockContext);
+
+    expect(logSpy.mock.calls.map(([message]) => String(message))).toEqual(
+      expect.arrayContaining([expect.stringMatching(/^web\s+cached\s+1\.0\.0/)])
+    );
+  });
+});
@@ -0,0 +1,223 @@
+import { ExecutorContext, PromiseExecutor, runExecutor } from '@nx/devkit';
+import { findAffectedProjects, getChangedFiles } from '../../utils/affected';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import {
+  findImageTarget,
+  sameProjectDependencies,
+} from '../../utils/image-target';
+import { ImageMetadata } from '../../utils/metadata';
+import { BuildAffectedImagesExecutorSchema } from './schema';
+
+interface ImageBuild {
+  project: string;
+  target: string;
+}
+
+interface ImageBuildResult extends ImageBuild {
+  success: boolean;
+  durationMs: number;
+  metadata?: Partial<ImageMetadata>;
+  error?: string;
+}
+
+/**
+ * Runs the build targets of an image target that skips its own build and
+ * relies on `dependsOn`, which `runExecutor` does not run.
+ */
+async function runBuildDependencies(
+  build: ImageBuild,
+  context: ExecutorContext
+): Promise<string | null> {
+  const node = context.projectGraph.nodes[build.project];
+  if (!node.data.targets[build.target].options?.skipBuild) {
+    return null;
+  }
+  const { targets, other } = sameProjectDependencies(node, build.target);
+  if (other.length > 0) {
+    console.warn(
+      `Warning: '${build.project}:${build.target}' depends on ${other.join(
+        ', '
+      )} of other projects, which are not run here. Build them before.`
+    );
+  }
+  for (const target of targets) {
+    for await (const { success } of await runExecutor(
+      { project: build.project, target },
+      {},
+      context
+    )) {
+      if (!success) {
+        return `Build target '${target}' failed`;
+      }
+    }
+  }
+  return null;
+}
+
+async function buildImage(
+  build: ImageBuild,
+  overrides: Record<string, unknown>,
+  context: ExecutorContext
+): Promise<ImageBuildResult> {
+  const startedAt = Date.now();
+  let metadata: Partial<ImageMetadata> | undefined;
+  try {
+    const error = await runBuildDependencies(build, context);
+    if (error) {
+      return {
+        ...build,
+        success: false,
+        durationMs: Date.now() - startedAt,
+        error,
+      };
+    }
+    for await (const result of await runExecutor<
+      { success: boolean } & Partial<ImageMetadata>
+    >(build, overrides, context)) {
+      const { success, ...rest } = result;
+      metadata = rest;
+      if (!success) {
+        return {
+          ...build,
+          success: false,
+          durationMs: Date.now() - startedAt,
+          metadata,
+        };
+      }
+    }
+  } catch (error) {
+    return {
+      ...build,
+      success: false,
+      durationMs: Date.now() - startedAt,
+      error: `${error}`,
+    };
+  }
+  return {
+    ...build,
+    success: true,
+    durationMs: Date.now() - startedAt,
+    metadata,
+  };
+}
+
+function formatDuration(ms: number): string {
+  return ms < 60_000
+    ? `${(ms / 1000).toFixed(1)}s`
+    : `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+/**
+ * Prints one row per image, with the columns padded to their widest cell.
+ */
+function printSummary(results: ImageBuildResult[]) {
+  const rows = [
+    ['Project', 'Status', 'Version', 'Tags', 'Duration'],
+    ...results.map((result) => [
+      result.project,
+      result.success
+        ? result.metadata?.cached
+          ? 'cached'
+          : 'built'
+        : 'FAILED',
+      result.metadata?.version ?? '-',
+      result.metadata?.tags ? `${result.metadata.tags.length}` : '-',
+      formatDuration(result.durationMs),
+    ]),
+  ];
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+  const format = (row: string[]) =>
+    row.map((cell, column) => cell.padEnd(widths[column])).join('  ');
+
+  console.log(`\n--- Image build summary ---`);
+  console.log(format(rows[0]));
+  console.log(format(widths.map((width) => '-'.repeat(width))));
+  rows.slice(1).forEach((row) => console.log(format(row)));
+}
+
+const buildAffectedImages: PromiseExecutor<
+  BuildAffectedImagesExecutorSchema
+> = async (options, context) => {
+  console.log(`\n---Starting Build Affected Images executor---\n`);
+  console.log(`Executor Options`, JSON.stringify(options, null, 2));
+
+  const { target, projectTag, affected, base, head, push, dryRun } = options;
+  const parallel = options.parallel ?? 3;
+
+  const graph = context.projectGraph;
+  if (!graph) {
+    console.error(`Error: The Nx project graph is not available.`);
+    return { success: false };
+  }
+
+  let builds: ImageBuild[] = Object.values(graph.nodes)
+    .filter((node) => node.type === 'app')
+    .filter((node) => !projectTag || node.data.tags?.includes(projectTag))
+    .map((node) => ({
+      project: node.name,
+      target: findImageTarget(node, target),
+    }))
+    .filter((build) => build.target !== null)
+    .sort((a, b) => a.project.localeCompare(b.project));
+
+  if (affected) {
+    const affectedBase =
+      base ??
+      process.env.NX_BASE ??
+      context.nxJsonConfiguration?.defaultBase ??
+      'main';
+    const affectedHead = head ?? process.env.NX_HEAD ?? 'HEAD';
+    let changedFiles: string[];
+    try {
+      changedFiles = await getChangedFiles(affectedBase, affectedHead);
+    } catch (error) {
+      console.error(
+        `\nError: Could not list the files changed between '${affectedBase}' and '${affectedHead}': ${error}`
+      );
+      return { success: false };
+    }
+    const affectedProjects = findAffectedProjects(graph, changedFiles);
+    console.log(
+      `${changedFiles.length} file(s) changed between '${affectedBase}' and '${affectedHead}'`
+    );
+    builds = builds.filter((build) => affectedProjects.has(build.project));
+  }
+
+  if (builds.length === 0) {
+    console.log(`No images to build.`);
+    return { success: true, results: [] };
+  }
+  console.log(
+    `Building ${builds.length} image(s), ${parallel} at a time:\n${builds
+      .map((build) => `  - ${build.project}:${build.target}`)
+      .join('\n')}`
+  );
+
+  const overrides: Record<string, unknown> = {};
+  if (push !== undefined) {
+    overrides.push = push;
+  }
+  if (dryRun !== undefined) {
+    overrides.dryRun = dryRun;
+  }
+
+  const results = await mapWithConcurrency(builds, parallel, (build) =>
+    buildImage(build, overrides, context)
+  );
+
+  printSummary(results);
+  const failed = results.filter((result) => !result.success);
+  failed.forEach((result) => {
+    console.error(
+      `Error: Image of '${result.project}' failed${
+        result.error ? `: ${result.error}` : ''
+      }`
+    );
+  });
+
+  return { success: failed.length === 0, results };
+};
+
+export default buildAffectedImages;
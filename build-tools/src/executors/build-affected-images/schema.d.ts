@@ -0,0 +1,10 @@
+export interface BuildAffectedImagesExecutorSchema {
+  target?: string;
+  projectTag?: string;
+  affected?: boolean;
+  base?: string;
+  head?: string;
+  parallel?: number;
+  push?: boolean;
+  dryRun?: boolean;
+}
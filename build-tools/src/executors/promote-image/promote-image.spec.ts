@@ -0,0 +1,176 @@
+import { ExecutorContext } from '@nx/devkit';
+import { spawn } from 'child_process';
+import { promisify } from 'util';
+
+import { fakeProcess } from '../../testing/fake-process';
+import executor from './promote-image';
+
+jest.mock('@nx/devkit', () => ({
+  readJsonFile: jest.fn(),
+}));
+
+jest.mock('child_process', () => ({
+  exec: jest.fn(),
+  execFile: jest.fn(),
+  spawn: jest.fn(),
+}));
+
+jest.mock('util', () => ({
+  promisify: jest.fn(),
+}));
+
+const mockPromisify = promisify as jest.MockedFunction<typeof promisify>;
+const mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
+
+describe('PromoteImage Executor', () => {
+  let mockContext: ExecutorContext;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+    errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+    // HEAD is tagged web/v1.2.3, an older and a prerelease were released.
+    mockPromisify.mockReturnValue(
+      jest.fn(async (command: string) => ({
+        stdout: command.startsWith('git rev-parse')
+          ? 'abc1234def5678\n'
+          : command.startsWith('git tag --points-at')
+          ? 'web/v1.2.3\n'
+          : 'web/v1.1.0\nweb/v1.2.3\nweb/v2.0.0-beta.1\n',
+      })) as never
+    );
+    mockSpawn.mockImplementation(() => fakeProcess());
+
+    mockContext = {
+      root: '/test/root',
+      cwd: '/test/root',
+      isVerbose: false,
+      projectName: 'web',
+      projectGraph: {
+        nodes: {
+          web: {
+            name: 'web',
+            type: 'app',
+            data: {
+              root: 'apps/web',
+              targets: {
+                container: {
+                  executor: '@mschoenbo/nx-build-tools:tag-and-build',
+                  options: {
+                    dockerRepository: 'localhost:5000',
+                    registries: ['ghcr.io/org'],
+                    versionResolver: 'git-tag',
+                    generateMajorMinor: true,
+                    tagLatest: true,
+                    push: true,
+                  },
+                },
+              },
+            },
+          },
+        },
+        dependencies: {},
+      },
+      projectsConfigurations: {
+        projects: { web: { root: 'apps/web' } },
+        version: 2,
+      },
+      nxJsonConfiguration: {},
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should add the release tags to the sha- image with imagetools', async () => {
+    const result = await executor({}, mockContext);
+
+    const tags = ['1.2.3', '1.2', '1', 'latest'];
+    const destinations = ['localhost:5000/web', 'ghcr.io/org/web'].flatMap(
+      (image) => tags.map((tag) => `${image}:${tag}`)
+    );
+    expect(result).toEqual({
+      success: true,
+      version: '1.2.3',
+      versionSource: 'git-tag',
+      source: 'localhost:5000/web:sha-abc1234',
+      tags: destinations,
+    });
+    expect(mockSpawn).toHaveBeenCalledTimes(1);
+    expect(mockSpawn.mock.calls[0][0]).toBe('docker');
+    expect(mockSpawn.mock.calls[0][1]).toEqual([
+      'buildx',
+      'imagetools',
+      'create',
+      ...destinations.flatMap((destination) => ['--tag', destination]),
+      'localhost:5000/web:sha-abc1234',
+    ]);
+  });
+
+  it('should tag with crane and copy to the other registries', async () => {
+    const result = await executor(
+      {
+        tool: 'crane',
+        sha: '0123456789abcdef',
+        version: '2.0.0-beta.1',
+        prereleaseChannelTag: true,
+      },
+      mockContext
+    );
+
+    expect(result.success).toBe(true);
+    expect(mockSpawn.mock.calls.map(([, args]) => args)).toEqual([
+      ['tag', 'localhost:5000/web:sha-0123456', '2.0.0-beta.1'],
+      ['tag', 'localhost:5000/web:sha-0123456', 'beta'],
+      [
+        'copy',
+        'localhost:5000/web:sha-0123456',
+        'ghcr.io/org/web:2.0.0-beta.1',
+      ],
+      ['copy', 'localhost:5000/web:sha-0123456', 'ghcr.io/org/web:beta'],
+    ]);
+  });
+
+  it('should only print the commands in a dry run', async () => {
+    const result = await executor({ dryRun: true }, mockContext);
+
+    expect(result.success).toBe(true);
+    expect(mockSpawn).not.toHaveBeenCalled();
+    expect(console.log).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'docker buildx imagetools create --tag localhost:5000/web:1.2.3'
+      )
+    );
+  });
+
+  it('should fail when the sha- image was not pushed', async () => {
+    mockSpawn.mockImplementation(() =>
+      fakeProcess({
+        exitCode: 1,
+        output: 'ERROR: localhost:5000/web:sha-abc1234: not found\n',
+      })
+    );
+
+    const result = await executor({}, mockContext);
+
+    expect(result.success).toBe(false);
+    expect(errorSpy).toHaveBeenCalledWith(
+      '\nError: Could not promote localhost:5000/web:sha-abc1234. Ensure tag-and-build pushed it for commit abc1234def5678. Last output:\nERROR: localhost:5000/web:sha-abc1234: not found'
+    );
+  });
+
+  it('should require an image target or repository', async () => {
+    mockContext.projectGraph.nodes.web.data.targets = {};
+
+    const result = await executor({}, mockContext);
+
+    expect(result.success).toBe(false);
+    expect(errorSpy).toHaveBeenCalledWith(
+      "Error: 'web' has no tag-and-build target. Set 'imageTarget' or 'dockerRepository'."
+    );
+  });
+});
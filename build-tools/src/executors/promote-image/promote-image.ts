@@ -0,0 +1,201 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { PromiseExecutor } from '@nx/devkit';
+import { imageReferences } from '../../utils/image-name';
+import { findImageTarget } from '../../utils/image-target';
+import { formatCommand, runCommand } from '../../utils/process';
+import { getReleaseTagPattern } from '../../utils/release-tag';
+import { retagCommands } from '../../utils/retag';
+import { parseSemver } from '../../utils/semver';
+import {
+  ResolvedVersion,
+  resolveVersion,
+  VersionResolverName,
+} from '../../utils/version';
+import { isLatestRelease, versionTags } from '../../utils/version-tags';
+import { TagAndBuildExecutorSchema } from '../tag-and-build/schema';
+import { PromoteImageExecutorSchema } from './schema';
+
+const promoteImage: PromiseExecutor<PromoteImageExecutorSchema> = async (
+  options,
+  context
+) => {
+  const appName = context.projectName;
+  console.log(`\n---Starting Promote Image executor for ${appName}---\n`);
+  console.log(`Executor Options`, JSON.stringify(options, null, 2));
+
+  const projectConfig = context.projectsConfigurations.projects[appName];
+  if (!projectConfig) {
+    console.error(`Error: Project configuration for '${appName}' not found.`);
+    return { success: false };
+  }
+
+  // The image target decides the names and tags, so the promoted tags are
+  // the ones tag-and-build would have pushed.
+  const node = context.projectGraph?.nodes[appName];
+  const imageTarget = node && findImageTarget(node, options.imageTarget);
+  if (options.imageTarget && !imageTarget) {
+    console.error(
+      `Error: Target '${options.imageTarget}' not found in '${appName}'.`
+    );
+    return { success: false };
+  }
+  const targetOptions: Partial<TagAndBuildExecutorSchema> =
+    (imageTarget && node.data.targets[imageTarget].options) ?? {};
+  const settings: PromoteImageExecutorSchema = {
+    ...targetOptions,
+    ...options,
+  };
+  if (!settings.dockerRepository) {
+    console.error(
+      `Error: '${appName}' has no tag-and-build target. Set 'imageTarget' or 'dockerRepository'.`
+    );
+    return { success: false };
+  }
+
+  const versionOrder: VersionResolverName[] = [
+    settings.versionResolver ?? 'package-json',
+    ...(settings.fallbackVersionResolvers ?? ['git-tag']),
+  ];
+  const releaseTagPattern = getReleaseTagPattern(
+    appName,
+    settings,
+    projectConfig,
+    context.nxJsonConfiguration
+  );
+  let resolvedVersion: ResolvedVersion | null;
+  if (settings.version) {
+    resolvedVersion = { version: settings.version, source: 'option' };
+  } else {
+    try {
+      resolvedVersion = await resolveVersion(versionOrder, {
+        appName,
+        projectRoot: projectConfig.root,
+        workspaceRoot: context.root,
+        gitTagPattern: releaseTagPattern,
+        versionFile: settings.versionFile,
+        versionEnvVar: settings.versionEnvVar,
+      });
+    } catch (error) {
+      console.error(`\nError resolving the version for '${appName}': ${error}`);
+      return { success: false };
+    }
+  }
+  if (!resolvedVersion) {
+    console.error(
+      `\nError: Could not determine the version of '${appName}' using ${versionOrder.join(
+        ', '
+      )}.`
+    );
+    return { success: false };
+  }
+  const semver = parseSemver(resolvedVersion.version);
+  if (!semver && settings.requireSemver !== false) {
+    console.error(
+      `\nError: Version '${resolvedVersion.version}' of '${appName}' (from ${resolvedVersion.source}) is not a valid SemVer version like 1.2.3 or 1.2.3-beta.1. Set 'requireSemver' to false to use it as-is.`
+    );
+    return { success: false };
+  }
+  const appVersion = semver ? semver.version : resolvedVersion.version;
+  console.log(
+    `Resolved version ${appVersion} (from ${resolvedVersion.source})`
+  );
+
+  let sha = options.sha;
+  if (!sha) {
+    try {
+      const { stdout } = await promisify(exec)('git rev-parse HEAD');
+      sha = stdout.trim();
+    } catch (error) {
+      console.error(
+        `\nError reading the Git commit SHA for '${appName}': ${error}. Ensure Git is available.`
+      );
+      return { success: false };
+    }
+  }
+
+  let imageNames: string[];
+  try {
+    imageNames = imageReferences(
+      [settings.dockerRepository, ...(settings.registries ?? [])],
+      settings.imageName,
+      appName
+    );
+  } catch (error) {
+    console.error(`\nError: ${(error as Error).message}`);
+    return { success: false };
+  }
+
+  if (targetOptions.tags) {
+    console.warn(
+      `Warning: The tag templates of '${imageTarget}' are not applied, promoting with the version tags.`
+    );
+  }
+  const releaseTags = versionTags(semver, appVersion, settings);
+  if (
+    settings.tagLatest &&
+    (await isLatestRelease(appName, semver, releaseTagPattern))
+  ) {
+    releaseTags.push('latest');
+  }
+  releaseTags.push(...(settings.additionalTags ?? []));
+
+  const source = `${imageNames[0]}:sha-${sha.substring(0, 7)}`;
+  const destinations = imageNames.flatMap((image) =>
+    [...new Set(releaseTags)].map((tag) => `${image}:${tag}`)
+  );
+  console.log(
+    `\nPromoting ${source} to:\n${destinations
+      .map((destination) => `  - ${destination}`)
+      .join('\n')}`
+  );
+
+  const commands = retagCommands(
+    source,
+    destinations,
+    options.tool ?? 'imagetools'
+  );
+  if (options.dryRun) {
+    console.log(
+      `\n--- Dry run: the registry is not changed ---\n${commands
+        .map(({ command, args }) => formatCommand(command, args))
+        .join('\n')}`
+    );
+    return { success: true };
+  }
+
+  for (const { command, args } of commands) {
+    console.log(
+      `\nExecuting promote command:\n${formatCommand(command, args)}\n`
+    );
+    try {
+      const result = await runCommand(command, args);
+      if (result.exitCode !== 0) {
+        console.error(
+          `\nError: Could not promote ${source}. Ensure tag-and-build pushed it for commit ${sha}. Last output:\n${result.lastLines.join(
+            '\n'
+          )}`
+        );
+        return { success: false };
+      }
+    } catch (error) {
+      console.error(
+        `\nError: Could not run ${command}: ${error}. Ensure ${command} is installed and on the PATH.`
+      );
+      return { success: false };
+    }
+  }
+
+  console.log(
+    `\n--- Successfully promoted ${source} as version ${appVersion} ---`
+  );
+  return {
+    success: true,
+    version: appVersion,
+    versionSource: resolvedVersion.source,
+    source,
+    tags: destinations,
+  };
+};
+
+export default promoteImage;
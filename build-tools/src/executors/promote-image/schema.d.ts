@@ -0,0 +1,29 @@
+import type { TagAndBuildExecutorSchema } from '../tag-and-build/schema';
+
+/** Options of the image target that decide the image names and tags. */
+type ImageTargetOptions = Pick<
+  TagAndBuildExecutorSchema,
+  | 'dockerRepository'
+  | 'registries'
+  | 'imageName'
+  | 'version'
+  | 'versionResolver'
+  | 'fallbackVersionResolvers'
+  | 'versionFile'
+  | 'versionEnvVar'
+  | 'tagPrefix'
+  | 'gitTagPattern'
+  | 'requireSemver'
+  | 'generateMajorMinor'
+  | 'prereleaseChannelTag'
+  | 'tagLatest'
+  | 'additionalTags'
+>;
+
+export interface PromoteImageExecutorSchema
+  extends Partial<ImageTargetOptions> {
+  imageTarget?: string;
+  sha?: string;
+  tool?: 'imagetools' | 'crane';
+  dryRun?: boolean;
+}
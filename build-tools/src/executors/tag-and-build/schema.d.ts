@@ -1,11 +1,72 @@
+import type { BuildxDriver } from '../../utils/buildx';
+import type { CacheOptions } from '../../utils/cache';
+import type { SignOptions } from '../../utils/cosign';
+import type { EngineName } from '../../utils/engine';
+import type { NodeDockerfileOptions } from '../../utils/node-dockerfile';
+import type { RegistryCredentials } from '../../utils/registry-auth';
+import type { SbomFormat } from '../../utils/sbom';
+import type { ScanOptions } from '../../utils/scanner';
+import type { TagTemplate } from '../../utils/tags';
+import type { VersionResolverName } from '../../utils/version';
+
+export interface BuildSecret {
+  id: string;
+  src?: string;
+  env?: string;
+}
+
 export interface TagAndBuildExecutorSchema {
-  appName: string;
+  appName?: string;
   dockerRepository: string;
-  buildTarget: string;
-  dockerfile: string;
-  context: string;
+  registries?: string[];
+  registryAuth?: RegistryCredentials[];
+  dockerConfig?: string;
+  imageName?: string;
+  buildTarget: string | string[];
+  buildConfiguration?: string;
+  buildOverrides?: Record<string, unknown>;
+  skipBuild?: boolean;
+  dockerfile?: string;
+  generateDockerfile?: boolean | NodeDockerfileOptions;
+  context?: string;
   push: boolean;
   additionalTags?: string[];
   generateMajorMinor?: boolean;
+  requireSemver?: boolean;
+  prereleaseChannelTag?: boolean;
+  tagLatest?: boolean;
+  tags?: TagTemplate[];
+  shaTag?: boolean;
+  defaultBranch?: string;
+  snapshot?: 'off' | 'fallback' | 'always';
   tagPrefix?: string;
+  gitTagPattern?: string;
+  version?: string;
+  versionResolver?: VersionResolverName;
+  fallbackVersionResolvers?: VersionResolverName[];
+  versionFile?: string;
+  versionEnvVar?: string;
+  dryRun?: boolean;
+  progress?: 'auto' | 'plain' | 'quiet';
+  timeout?: number;
+  metadataFile?: string;
+  engine?: EngineName | 'auto';
+  platforms?: string[];
+  builder?: string;
+  builderDriver?: BuildxDriver;
+  load?: boolean;
+  cache?: CacheOptions;
+  ociLabels?: boolean;
+  ociLabelOverrides?: Record<string, string>;
+  buildArgs?: Record<string, string>;
+  secrets?: BuildSecret[];
+  labels?: Record<string, string>;
+  target?: string;
+  scan?: boolean | ScanOptions;
+  sbom?: boolean;
+  sbomFile?: string;
+  sbomFormat?: SbomFormat;
+  provenance?: boolean | 'min' | 'max';
+  sign?: SignOptions;
+  skipIfExists?: boolean | 'sha' | 'hash';
 }
@@ -1,18 +1,46 @@
 import { ExecutorContext } from '@nx/devkit';
-import { readJsonFile, runExecutor } from '@nx/devkit';
+import {
+  detectPackageManager,
+  getOutputsForTargetAndConfiguration,
+  readJsonFile,
+  runExecutor,
+} from '@nx/devkit';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
 import { promisify } from 'util';
 
+import { fakeProcess } from '../../testing/fake-process';
+import { formatCommand } from '../../utils/process';
 import { TagAndBuildExecutorSchema } from './schema';
 import executor from './tag-and-build';
 
 // Mock dependencies
 jest.mock('@nx/devkit', () => ({
+  detectPackageManager: jest.fn(),
+  getOutputsForTargetAndConfiguration: jest.fn(),
   readJsonFile: jest.fn(),
   runExecutor: jest.fn(),
 }));
 
+jest.mock('fs', () => {
+  const fs = jest.requireActual('fs');
+  return { ...fs, existsSync: jest.fn(fs.existsSync) };
+});
+
 jest.mock('child_process', () => ({
   exec: jest.fn(),
+  execFile: jest.fn(),
+  spawn: jest.fn(),
 }));
 
 jest.mock('util', () => ({
@@ -23,7 +51,45 @@ const mockReadJsonFile = readJsonFile as jest.MockedFunction<
   typeof readJsonFile
 >;
 const mockRunExecutor = runExecutor as jest.MockedFunction<typeof runExecutor>;
+const mockGetOutputs = getOutputsForTargetAndConfiguration as jest.Mock;
+const mockDetectPackageManager = detectPackageManager as jest.Mock;
 const mockPromisify = promisify as jest.MockedFunction<typeof promisify>;
+const mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
+const mockExistsSync = existsSync as jest.MockedFunction<typeof existsSync>;
+const { existsSync: actualExistsSync } = jest.requireActual('fs');
+
+const dockerBuildCall = () =>
+  mockSpawn.mock.calls.find(
+    ([, args]) => args?.[0] === 'buildx' && args[1] === 'build'
+  );
+
+const dockerCommand = () => {
+  const call = dockerBuildCall();
+  return call && formatCommand(call[0], call[1] as string[]);
+};
+
+const baseOptions: TagAndBuildExecutorSchema = {
+  appName: 'test-app',
+  dockerRepository: 'test-repo',
+  buildTarget: 'build',
+  push: false,
+};
+
+/** The JSON plan of a dry run, read from the `console.log` spy. */
+const plan = () =>
+  JSON.parse(
+    (console.log as jest.Mock).mock.calls
+      .map(([message]) => String(message))
+      .find((message) => message.startsWith('{'))
+  );
+
+/** Lets every run of the build targets succeed. */
+const buildSucceeds = () =>
+  mockRunExecutor.mockImplementation(async () =>
+    (async function* () {
+      yield { success: true };
+    })()
+  );
 
 describe('TagAndBuild Executor', () => {
   let mockContext: ExecutorContext;
@@ -34,6 +100,12 @@ describe('TagAndBuild Executor', () => {
 
     mockPromisifiedExec = jest.fn();
     mockPromisify.mockReturnValue(mockPromisifiedExec);
+    mockSpawn.mockImplementation(() => fakeProcess());
+    // Every file exists in the fake workspace, real temp workspaces are
+    // checked on disk.
+    mockExistsSync.mockImplementation(
+      (file) => String(file).startsWith('/test/root/') || actualExistsSync(file)
+    );
 
     mockContext = {
       root: '/test/root',
@@ -60,24 +132,11 @@ describe('TagAndBuild Executor', () => {
 
   describe('Version Detection', () => {
     it('should use version from package.json when available', async () => {
-      const options: TagAndBuildExecutorSchema = {
-        appName: 'test-app',
-        dockerRepository: 'test-repo',
-        buildTarget: 'build',
-        dockerfile: 'Dockerfile',
-        context: '.',
-        push: false,
-      };
-
       mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
-      mockRunExecutor.mockResolvedValue(
-        (async function* () {
-          yield { success: true };
-        })()
-      );
+      buildSucceeds();
       mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
 
-      const result = await executor(options, mockContext);
+      const result = await executor(baseOptions, mockContext);
 
       expect(result.success).toBe(true);
       expect(mockReadJsonFile).toHaveBeenCalledWith(
@@ -86,26 +145,13 @@ describe('TagAndBuild Executor', () => {
     });
 
     it('should fall back to Git tags when package.json version is not available', async () => {
-      const options: TagAndBuildExecutorSchema = {
-        appName: 'test-app',
-        dockerRepository: 'test-repo',
-        buildTarget: 'build',
-        dockerfile: 'Dockerfile',
-        context: '.',
-        push: false,
-      };
-
       mockReadJsonFile.mockReturnValue({});
       mockPromisifiedExec.mockResolvedValue({
         stdout: 'test-app/v1.2.3\nother-tag',
       }); // git tag output
-      mockRunExecutor.mockResolvedValue(
-        (async function* () {
-          yield { success: true };
-        })()
-      );
+      buildSucceeds();
 
-      const result = await executor(options, mockContext);
+      const result = await executor(baseOptions, mockContext);
 
       expect(result.success).toBe(true);
       expect(mockPromisifiedExec).toHaveBeenCalledWith(
@@ -115,12 +161,7 @@ describe('TagAndBuild Executor', () => {
 
     it('should use custom tag prefix when provided', async () => {
       const options: TagAndBuildExecutorSchema = {
-        appName: 'test-app',
-        dockerRepository: 'test-repo',
-        buildTarget: 'build',
-        dockerfile: 'Dockerfile',
-        context: '.',
-        push: false,
+        ...baseOptions,
         tagPrefix: 'release-',
       };
 
@@ -128,11 +169,7 @@ describe('TagAndBuild Executor', () => {
       mockPromisifiedExec.mockResolvedValue({
         stdout: 'test-app/release-1.2.3',
       });
-      mockRunExecutor.mockResolvedValue(
-        (async function* () {
-          yield { success: true };
-        })()
-      );
+      buildSucceeds();
 
       const result = await executor(options, mockContext);
 
@@ -140,319 +177,2526 @@ describe('TagAndBuild Executor', () => {
     });
 
     it('should fail when no version can be determined', async () => {
-      const options: TagAndBuildExecutorSchema = {
-        appName: 'test-app',
-        dockerRepository: 'test-repo',
-        buildTarget: 'build',
-        dockerfile: 'Dockerfile',
-        context: '.',
-        push: false,
-      };
-
       mockReadJsonFile.mockReturnValue({});
       mockPromisifiedExec.mockResolvedValue({ stdout: '' });
 
-      const result = await executor(options, mockContext);
+      const result = await executor(baseOptions, mockContext);
 
       expect(result.success).toBe(false);
     });
 
     it('should handle package.json read errors gracefully', async () => {
-      const options: TagAndBuildExecutorSchema = {
-        appName: 'test-app',
-        dockerRepository: 'test-repo',
-        buildTarget: 'build',
-        dockerfile: 'Dockerfile',
-        context: '.',
-        push: false,
-      };
-
       mockReadJsonFile.mockImplementation(() => {
         throw new Error('File not found');
       });
       mockPromisifiedExec
         .mockResolvedValueOnce({ stdout: 'test-app/v1.2.3' })
         .mockResolvedValueOnce({ stdout: 'abc1234' });
-      mockRunExecutor.mockResolvedValue(
-        (async function* () {
-          yield { success: true };
-        })()
-      );
+      buildSucceeds();
 
-      const result = await executor(options, mockContext);
+      const result = await executor(baseOptions, mockContext);
 
-      expect(result.success).toBe(false);
+      // Falls back to the Git tag instead of failing
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain('--build-arg APP_VERSION=1.2.3');
     });
   });
 
-  describe('Build Execution', () => {
-    it('should execute the build target successfully', async () => {
-      const options: TagAndBuildExecutorSchema = {
-        appName: 'test-app',
-        dockerRepository: 'test-repo',
-        buildTarget: 'build',
-        dockerfile: 'Dockerfile',
-        context: '.',
-        push: false,
-      };
-
-      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
-      mockRunExecutor.mockResolvedValue(
-        (async function* () {
-          yield { success: true };
-        })()
+  describe('Version Resolvers', () => {
+    const options: TagAndBuildExecutorSchema = {
+      ...baseOptions,
+      dryRun: true,
+      ociLabels: false,
+    };
+    const originalEnv = process.env;
+    let workspaceRoot: string;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv };
+      workspaceRoot = mkdtempSync(join(tmpdir(), 'tag-and-build-'));
+      mkdirSync(join(workspaceRoot, 'apps/test-app'), { recursive: true });
+      writeFileSync(
+        join(workspaceRoot, 'apps/test-app/Dockerfile'),
+        'FROM scratch\n'
       );
+      jest.spyOn(console, 'log').mockImplementation();
+      jest.spyOn(console, 'warn').mockImplementation();
+
+      mockReadJsonFile.mockReturnValue({});
       mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+    });
 
-      const result = await executor(options, mockContext);
+    afterEach(() => {
+      jest.restoreAllMocks();
+      rmSync(workspaceRoot, { recursive: true, force: true });
+      process.env = originalEnv;
+    });
 
-      expect(result.success).toBe(true);
-      expect(mockRunExecutor).toHaveBeenCalledWith(
-        {
-          project: 'test-app',
-          target: 'build',
-          configuration: 'production',
-        },
-        {},
+    it('should use an explicit version without consulting any resolver', async () => {
+      const result = await executor(
+        { ...options, version: '4.5.6' },
         mockContext
       );
+
+      expect(result.success).toBe(true);
+      expect(mockReadJsonFile).not.toHaveBeenCalled();
+      expect(plan()).toMatchObject({
+        version: '4.5.6',
+        versionSource: 'option',
+      });
     });
 
-    it('should fail when build target fails', async () => {
-      const options: TagAndBuildExecutorSchema = {
-        appName: 'test-app',
-        dockerRepository: 'test-repo',
-        buildTarget: 'build',
-        dockerfile: 'Dockerfile',
-        context: '.',
-        push: false,
-      };
+    it('should read the version from an environment variable', async () => {
+      process.env.RELEASE_VERSION = '2.0.0';
 
-      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
-      mockRunExecutor.mockResolvedValue(
-        (async function* () {
-          yield { success: false };
-        })()
+      const result = await executor(
+        {
+          ...options,
+          versionResolver: 'env',
+          versionEnvVar: 'RELEASE_VERSION',
+        },
+        mockContext
       );
 
-      const result = await executor(options, mockContext);
-
-      expect(result.success).toBe(false);
+      expect(result.success).toBe(true);
+      expect(plan()).toMatchObject({ version: '2.0.0', versionSource: 'env' });
     });
-  });
-
-  describe('Docker Tagging', () => {
-    it('should generate correct Docker tags with version', async () => {
-      const options: TagAndBuildExecutorSchema = {
-        appName: 'test-app',
-        dockerRepository: 'test-repo',
-        buildTarget: 'build',
-        dockerfile: 'Dockerfile',
-        context: '.',
-        push: false,
-      };
 
-      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
-      mockRunExecutor.mockResolvedValue(
-        (async function* () {
-          yield { success: true };
-        })()
+    it('should read the version from project.json', async () => {
+      writeFileSync(join(workspaceRoot, 'apps/test-app/project.json'), '{}');
+      mockReadJsonFile.mockImplementation((path: string) =>
+        path.endsWith('project.json') ? { version: '3.1.0' } : {}
       );
-      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
 
-      const result = await executor(options, mockContext);
+      const result = await executor(
+        { ...options, versionResolver: 'project-json' },
+        { ...mockContext, root: workspaceRoot }
+      );
 
       expect(result.success).toBe(true);
-      expect(mockPromisifiedExec).toHaveBeenCalledWith(
-        expect.stringContaining(
-          'docker buildx build -t "test-repo/test-app:1.2.3" -t "test-repo/test-app:sha-abc1234"'
-        )
-      );
+      expect(plan()).toMatchObject({
+        version: '3.1.0',
+        versionSource: 'project-json',
+      });
     });
 
-    it('should generate major.minor and major tags when generateMajorMinor is true', async () => {
-      const options: TagAndBuildExecutorSchema = {
-        appName: 'test-app',
-        dockerRepository: 'test-repo',
-        buildTarget: 'build',
-        dockerfile: 'Dockerfile',
-        context: '.',
-        push: false,
-        generateMajorMinor: true,
-      };
-
-      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
-      mockRunExecutor.mockResolvedValue(
-        (async function* () {
-          yield { success: true };
-        })()
+    it('should read the version from a version file', async () => {
+      writeFileSync(
+        join(workspaceRoot, 'apps/test-app/Cargo.toml'),
+        '[package]\nname = "test-app"\nversion = "0.7.2"\n\n[dependencies]\nserde = { version = "1.0" }\n'
       );
-      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
 
-      const result = await executor(options, mockContext);
+      const result = await executor(
+        { ...options, versionResolver: 'file', versionFile: 'Cargo.toml' },
+        { ...mockContext, root: workspaceRoot }
+      );
 
       expect(result.success).toBe(true);
-      expect(mockPromisifiedExec).toHaveBeenCalledWith(
-        expect.stringContaining(
-          'docker buildx build -t "test-repo/test-app:1.2.3" -t "test-repo/test-app:1.2" -t "test-repo/test-app:1" -t "test-repo/test-app:sha-abc1234"'
-        )
-      );
+      expect(plan()).toMatchObject({ version: '0.7.2', versionSource: 'file' });
     });
 
-    it('should include additional tags when provided', async () => {
-      const options: TagAndBuildExecutorSchema = {
-        appName: 'test-app',
-        dockerRepository: 'test-repo',
-        buildTarget: 'build',
-        dockerfile: 'Dockerfile',
-        context: '.',
-        push: false,
-        additionalTags: ['latest', 'stable'],
-      };
-
-      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
-      mockRunExecutor.mockResolvedValue(
-        (async function* () {
-          yield { success: true };
-        })()
+    it('should try fallback resolvers in the configured order', async () => {
+      mockPromisifiedExec.mockImplementation(
+        async (command: string, args?: string[]) => {
+          if (args?.[0] === 'describe') {
+            return { stdout: 'test-app/v1.4.0\n' };
+          }
+          if (command === 'git tag --points-at HEAD') {
+            return { stdout: '' };
+          }
+          return { stdout: 'abc1234' };
+        }
       );
-      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
 
-      const result = await executor(options, mockContext);
+      const result = await executor(
+        {
+          ...options,
+          fallbackVersionResolvers: ['env', 'git-tag', 'git-describe'],
+        },
+        mockContext
+      );
 
       expect(result.success).toBe(true);
-      expect(mockPromisifiedExec).toHaveBeenCalledWith(
-        expect.stringContaining(
-          'docker buildx build -t "test-repo/test-app:1.2.3" -t "test-repo/test-app:latest" -t "test-repo/test-app:stable" -t "test-repo/test-app:sha-abc1234"'
-        )
+      expect(mockPromisifiedExec).toHaveBeenCalledWith('git', [
+        'describe',
+        '--tags',
+        '--abbrev=0',
+        '--match',
+        'test-app/v*',
+      ]);
+      expect(plan()).toMatchObject({
+        version: '1.4.0',
+        versionSource: 'git-describe',
+      });
+    });
+
+    it('should fail when none of the resolvers finds a version', async () => {
+      const result = await executor(
+        { ...options, fallbackVersionResolvers: ['env'] },
+        mockContext
       );
+
+      expect(result.success).toBe(false);
     });
   });
 
-  describe('Docker Build', () => {
-    it('should execute Docker build with correct parameters', async () => {
-      const options: TagAndBuildExecutorSchema = {
-        appName: 'test-app',
-        dockerRepository: 'test-repo',
-        buildTarget: 'build',
-        dockerfile: 'Dockerfile',
-        context: '.',
-        push: false,
-      };
+  describe('Git Tag Patterns', () => {
+    const options: TagAndBuildExecutorSchema = {
+      ...baseOptions,
+      dryRun: true,
+      ociLabels: false,
+    };
 
-      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
-      mockRunExecutor.mockResolvedValue(
-        (async function* () {
-          yield { success: true };
-        })()
+    const withTags = (tags: string[]) =>
+      mockPromisifiedExec.mockImplementation(async (command: string) =>
+        command === 'git tag --points-at HEAD'
+          ? { stdout: tags.join('\n') }
+          : { stdout: 'abc1234' }
       );
-      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
 
-      const result = await executor(options, mockContext);
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation();
+      jest.spyOn(console, 'warn').mockImplementation();
+      mockReadJsonFile.mockReturnValue({});
+    });
 
-      expect(result.success).toBe(true);
-      expect(mockPromisifiedExec).toHaveBeenCalledWith(
-        expect.stringContaining(
-          'docker buildx build -t "test-repo/test-app:1.2.3" -t "test-repo/test-app:sha-abc1234" -f "/test/root/Dockerfile" "/test/root" --build-arg APP_VERSION="1.2.3" --build-arg BUILD_SHA="abc1234"'
-        )
-      );
+    afterEach(() => {
+      jest.restoreAllMocks();
     });
 
-    it('should include --push flag when push is true', async () => {
-      const options: TagAndBuildExecutorSchema = {
-        appName: 'test-app',
-        dockerRepository: 'test-repo',
-        buildTarget: 'build',
-        dockerfile: 'Dockerfile',
-        context: '.',
-        push: true,
-      };
+    it('should match scoped project names with the Nx release pattern', async () => {
+      withTags(['@org/api@2.0.0-beta.1', '@org/api-gateway@9.9.9']);
+      const context = {
+        ...mockContext,
+        projectsConfigurations: {
+          version: 2,
+          projects: {
+            '@org/api': { root: 'apps/api', projectType: 'application' },
+          },
+        },
+      } as ExecutorContext;
 
-      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
-      mockRunExecutor.mockResolvedValue(
-        (async function* () {
-          yield { success: true };
-        })()
+      const result = await executor(
+        {
+          ...options,
+          appName: '@org/api',
+          gitTagPattern: '{projectName}@{version}',
+        },
+        context
       );
-      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
-
-      const result = await executor(options, mockContext);
 
       expect(result.success).toBe(true);
-      expect(mockPromisifiedExec).toHaveBeenCalledWith(
-        expect.stringContaining('docker buildx build --push')
-      );
+      expect(plan()).toMatchObject({
+        version: '2.0.0-beta.1',
+        versionSource: 'git-tag',
+      });
     });
 
-    it('should use custom dockerfile and context paths', async () => {
-      const options: TagAndBuildExecutorSchema = {
-        appName: 'test-app',
-        dockerRepository: 'test-repo',
-        buildTarget: 'build',
-        dockerfile: 'docker/Dockerfile.prod',
-        context: 'apps/test-app',
-        push: false,
-      };
+    it('should read the pattern from the nx.json release config', async () => {
+      withTags(['release/test-app-1.5.0']);
 
-      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
-      mockRunExecutor.mockResolvedValue(
-        (async function* () {
-          yield { success: true };
-        })()
-      );
+      const result = await executor(options, {
+        ...mockContext,
+        nxJsonConfiguration: {
+          release: { releaseTagPattern: 'release/{projectName}-{version}' },
+        },
+      });
+
+      expect(result.success).toBe(true);
+      expect(plan()).toMatchObject({ version: '1.5.0' });
+    });
+
+    it('should prefer the release group pattern of the project', async () => {
+      withTags(['test-app/v1.0.0', 'apps-1.6.0']);
+
+      const result = await executor(options, {
+        ...mockContext,
+        nxJsonConfiguration: {
+          release: {
+            releaseTagPattern: '{projectName}/v{version}',
+            groups: {
+              apps: {
+                projects: ['test-app'],
+                releaseTagPattern: 'apps-{version}',
+              },
+            },
+          },
+        },
+      });
+
+      expect(result.success).toBe(true);
+      expect(plan()).toMatchObject({ version: '1.6.0' });
+    });
+
+    it('should prefer the option over project and workspace config', async () => {
+      withTags(['test-app@1.0.0', 'v3.0.0']);
+
+      const result = await executor(
+        { ...options, gitTagPattern: 'v{version}' },
+        {
+          ...mockContext,
+          nxJsonConfiguration: {
+            release: { releaseTagPattern: '{projectName}@{version}' },
+          },
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(plan()).toMatchObject({ version: '3.0.0' });
+    });
+
+    it('should match the project name literally', async () => {
+      withTags(['test-app/v1.0.0']);
+      const context = {
+        ...mockContext,
+        projectsConfigurations: {
+          version: 2,
+          projects: {
+            'test.app': { root: 'apps/test.app', projectType: 'application' },
+          },
+        },
+      } as ExecutorContext;
+
+      const result = await executor(
+        { ...options, appName: 'test.app' },
+        context
+      );
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should fail for patterns without a version placeholder', async () => {
+      withTags(['test-app']);
+
+      const result = await executor(
+        { ...options, gitTagPattern: '{projectName}' },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('SemVer Tags', () => {
+    const options: TagAndBuildExecutorSchema = {
+      ...baseOptions,
+      generateMajorMinor: true,
+      dryRun: true,
+      ociLabels: false,
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation();
+      jest.spyOn(console, 'warn').mockImplementation();
+      mockPromisifiedExec.mockImplementation(
+        async (command: string, args?: string[]) =>
+          args?.[1] === '--list'
+            ? {
+                stdout:
+                  'test-app/v1.2.3\ntest-app/v1.1.0\ntest-app/v2.0.0-rc.1',
+              }
+            : { stdout: 'abc1234' }
+      );
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should not move floating tags for prereleases', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.3.0-beta.1' });
+
+      const result = await executor(options, mockContext);
+
+      expect(result.success).toBe(true);
+      expect(plan().dockerTags).toEqual([
+        'test-repo/test-app:1.3.0-beta.1',
+        'test-repo/test-app:sha-abc1234',
+      ]);
+    });
+
+    it('should add a channel tag for prereleases when enabled', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.3.0-beta.1' });
+
+      const result = await executor(
+        { ...options, prereleaseChannelTag: true },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(plan().dockerTags).toEqual([
+        'test-repo/test-app:1.3.0-beta.1',
+        'test-repo/test-app:beta',
+        'test-repo/test-app:sha-abc1234',
+      ]);
+    });
+
+    it('should strip build metadata and a leading v from tags', async () => {
+      mockReadJsonFile.mockReturnValue({ version: 'v1.2.3+build.42' });
+
+      const result = await executor(options, mockContext);
+
+      expect(result.success).toBe(true);
+      expect(plan()).toMatchObject({
+        version: '1.2.3+build.42',
+        dockerTags: [
+          'test-repo/test-app:1.2.3',
+          'test-repo/test-app:1.2',
+          'test-repo/test-app:1',
+          'test-repo/test-app:sha-abc1234',
+        ],
+      });
+    });
+
+    it('should reject versions that are not SemVer', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2' });
+
+      const result = await executor(options, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(mockRunExecutor).not.toHaveBeenCalled();
+    });
+
+    it('should use other versions as-is when SemVer is not required', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '2024.06' });
+
+      const result = await executor(
+        { ...options, requireSemver: false },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(plan().dockerTags).toEqual([
+        'test-repo/test-app:2024.06',
+        'test-repo/test-app:sha-abc1234',
+      ]);
+    });
+
+    it('should render tag templates instead of the default tags', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      process.env.GITHUB_HEAD_REF = 'main';
+
+      const result = await executor(
+        {
+          ...options,
+          additionalTags: ['ignored'],
+          tags: [
+            '{version}',
+            { template: '{major}.{minor}', if: 'stable' },
+            { template: 'edge', if: 'default-branch' },
+            '{branch}-{shortSha:10}',
+          ],
+          shaTag: false,
+        },
+        mockContext
+      );
+      delete process.env.GITHUB_HEAD_REF;
+
+      expect(result.success).toBe(true);
+      expect(plan().dockerTags).toEqual([
+        'test-repo/test-app:1.2.3',
+        'test-repo/test-app:1.2',
+        'test-repo/test-app:edge',
+        'test-repo/test-app:main-abc1234',
+      ]);
+      expect(warnSpy).toHaveBeenCalledWith(
+        "Warning: Ignoring additionalTags (ignored) because 'tags' is set. Add them to 'tags' instead."
+      );
+    });
+
+    it('should fail before building when a tag template is invalid', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+
+      const result = await executor(
+        { ...options, tags: ['{unknown}'] },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(mockRunExecutor).not.toHaveBeenCalled();
+    });
+
+    it('should tag latest for the highest stable release', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+
+      const result = await executor(
+        { ...options, generateMajorMinor: false, tagLatest: true },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockPromisifiedExec).toHaveBeenCalledWith('git', [
+        'tag',
+        '--list',
+        'test-app/v*',
+      ]);
+      expect(plan().dockerTags).toContain('test-repo/test-app:latest');
+    });
+
+    it('should not tag latest when a higher stable release exists', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.1.1' });
+
+      const result = await executor(
+        { ...options, generateMajorMinor: false, tagLatest: true },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(plan().dockerTags).not.toContain('test-repo/test-app:latest');
+    });
+  });
+
+  describe('Build Execution', () => {
+    it('should execute the build target successfully', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(baseOptions, mockContext);
+
+      expect(result.success).toBe(true);
+      expect(mockRunExecutor).toHaveBeenCalledWith(
+        {
+          project: 'test-app',
+          target: 'build',
+          configuration: 'production',
+        },
+        {},
+        mockContext
+      );
+    });
+
+    it('should fail when build target fails', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      mockRunExecutor.mockResolvedValue(
+        (async function* () {
+          yield { success: false };
+        })()
+      );
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(baseOptions, mockContext);
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should run several targets with configuration and overrides', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(
+        {
+          ...baseOptions,
+          buildTarget: ['build', 'prune-lockfile:ci'],
+          buildConfiguration: 'staging',
+          buildOverrides: { sourceMap: false },
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockRunExecutor.mock.calls).toEqual([
+        [
+          { project: 'test-app', target: 'build', configuration: 'staging' },
+          { sourceMap: false },
+          mockContext,
+        ],
+        [
+          {
+            project: 'test-app',
+            target: 'prune-lockfile',
+            configuration: 'ci',
+          },
+          { sourceMap: false },
+          mockContext,
+        ],
+      ]);
+    });
+
+    it('should skip the build target with skipBuild', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(
+        {
+          ...baseOptions,
+          skipBuild: true,
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockRunExecutor).not.toHaveBeenCalled();
+      expect(dockerBuildCall()).toBeDefined();
+    });
+
+    it('should fail before docker when declared outputs are missing', async () => {
+      mockContext.projectsConfigurations.projects['test-app'].targets = {
+        build: { outputs: ['{workspaceRoot}/dist/{projectRoot}'] },
+      };
+      mockGetOutputs.mockReturnValue(['dist/apps/test-app']);
+      mockExistsSync.mockImplementation(
+        (file) =>
+          String(file).startsWith('/test/root/apps/') || actualExistsSync(file)
+      );
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await executor(baseOptions, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        "\nError: Build target 'build' of 'test-app' succeeded, but these declared outputs are missing or empty:\n  - dist/apps/test-app\nCheck the 'outputs' of the target, or that the build writes where they point."
+      );
+      expect(mockSpawn).not.toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('Docker Tagging', () => {
+    it('should generate correct Docker tags with version', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(baseOptions, mockContext);
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain(
+        'docker buildx build -t test-repo/test-app:1.2.3 -t test-repo/test-app:sha-abc1234'
+      );
+    });
+
+    it('should normalize the repository and scoped project names', async () => {
+      mockContext.projectsConfigurations.projects['@org/Web'] =
+        mockContext.projectsConfigurations.projects['test-app'];
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(
+        {
+          appName: '@org/Web',
+          dockerRepository: 'ghcr.io/Your-Org/',
+          buildTarget: 'build',
+          push: false,
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain(
+        '-t ghcr.io/your-org/org/web:1.2.3 -t ghcr.io/your-org/org/web:sha-abc1234'
+      );
+    });
+
+    it('should tag the image in every registry with a templated name', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(
+        {
+          ...baseOptions,
+          dockerRepository: 'ghcr.io/org',
+          registries: ['123456789012.dkr.ecr.eu-west-1.amazonaws.com/org'],
+          imageName: 'platform/{appName}',
+          push: true,
+        },
+        mockContext
+      );
+
+      expect(result).toMatchObject({
+        success: true,
+        imageName: 'ghcr.io/org/platform/test-app',
+        tags: [
+          'ghcr.io/org/platform/test-app:1.2.3',
+          'ghcr.io/org/platform/test-app:sha-abc1234',
+          '123456789012.dkr.ecr.eu-west-1.amazonaws.com/org/platform/test-app:1.2.3',
+          '123456789012.dkr.ecr.eu-west-1.amazonaws.com/org/platform/test-app:sha-abc1234',
+        ],
+      });
+      expect(
+        mockSpawn.mock.calls.filter(([, args]) => args[0] === 'buildx')
+      ).toHaveLength(1);
+    });
+
+    it('should fail on unknown placeholders in the image name', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(
+        {
+          ...baseOptions,
+          dockerRepository: 'ghcr.io/org',
+          imageName: '{team}/{appName}',
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining("Unknown placeholder '{team}'")
+      );
+      expect(mockRunExecutor).not.toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+
+    it('should generate major.minor and major tags when generateMajorMinor is true', async () => {
+      const options: TagAndBuildExecutorSchema = {
+        ...baseOptions,
+        generateMajorMinor: true,
+      };
+
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(options, mockContext);
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain(
+        'docker buildx build -t test-repo/test-app:1.2.3 -t test-repo/test-app:1.2 -t test-repo/test-app:1 -t test-repo/test-app:sha-abc1234'
+      );
+    });
+
+    it('should include additional tags when provided', async () => {
+      const options: TagAndBuildExecutorSchema = {
+        ...baseOptions,
+        additionalTags: ['latest', 'stable'],
+      };
+
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(options, mockContext);
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain(
+        'docker buildx build -t test-repo/test-app:1.2.3 -t test-repo/test-app:latest -t test-repo/test-app:stable -t test-repo/test-app:sha-abc1234'
+      );
+    });
+  });
+
+  describe('Docker Build', () => {
+    it('should execute Docker build with correct parameters', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(baseOptions, mockContext);
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain(
+        'docker buildx build -t test-repo/test-app:1.2.3 -t test-repo/test-app:sha-abc1234 -f /test/root/apps/test-app/Dockerfile /test/root/apps/test-app --build-arg APP_VERSION=1.2.3 --build-arg BUILD_SHA=abc1234'
+      );
+    });
+
+    it('should include --push flag when push is true', async () => {
+      const options: TagAndBuildExecutorSchema = {
+        ...baseOptions,
+        push: true,
+      };
+
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(options, mockContext);
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain('docker buildx build --push');
+    });
+
+    it('should use custom dockerfile and context paths', async () => {
+      const options: TagAndBuildExecutorSchema = {
+        ...baseOptions,
+        dockerfile: '{workspaceRoot}/docker/Dockerfile.prod',
+        context: '{projectRoot}',
+      };
+
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(options, mockContext);
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain(
+        'docker buildx build -t test-repo/test-app:1.2.3 -t test-repo/test-app:sha-abc1234 -f /test/root/docker/Dockerfile.prod /test/root/apps/test-app --build-arg APP_VERSION=1.2.3 --build-arg BUILD_SHA=abc1234'
+      );
+    });
+
+    it('should default appName to the project being run', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(
+        { dockerRepository: 'test-repo', buildTarget: 'build', push: false },
+        { ...mockContext, projectName: 'test-app' }
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockRunExecutor).toHaveBeenCalledWith(
+        expect.objectContaining({ project: 'test-app' }),
+        {},
+        expect.anything()
+      );
+      expect(dockerCommand()).toContain(
+        '-t test-repo/test-app:1.2.3 -t test-repo/test-app:sha-abc1234 -f /test/root/apps/test-app/Dockerfile /test/root/apps/test-app'
+      );
+    });
+
+    it('should fall back to the Dockerfile in the workspace root', async () => {
+      mockExistsSync.mockImplementation(
+        (file) => file === '/test/root/Dockerfile'
+      );
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(
+        {
+          ...baseOptions,
+          context: '{workspaceRoot}',
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain('-f /test/root/Dockerfile /test/root');
+    });
+
+    it('should list the searched locations when no Dockerfile is found', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockExistsSync.mockReturnValue(false);
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+
+      const result = await executor(baseOptions, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        "Error: No Dockerfile found for 'test-app'. Searched:\n  - /test/root/apps/test-app/Dockerfile\n  - /test/root/Dockerfile"
+      );
+      expect(mockRunExecutor).not.toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+
+    it('should handle Docker build failures', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+      mockSpawn.mockImplementation(() =>
+        fakeProcess({ exitCode: 1, output: 'ERROR: failed to solve\n' })
+      );
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await executor(baseOptions, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        "\nError: Docker build failed for 'test-app' with exit code 1. Last output:\nERROR: failed to solve"
+      );
+      errorSpy.mockRestore();
+    });
+
+    it('should pass the progress mode and hide output when quiet', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+      mockSpawn.mockImplementation(() =>
+        fakeProcess({ output: '#1 DONE 0.1s\n' })
+      );
+      const stderrSpy = jest
+        .spyOn(process.stderr, 'write')
+        .mockImplementation();
+
+      const result = await executor(
+        {
+          ...baseOptions,
+          progress: 'quiet',
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain('--progress quiet');
+      expect(stderrSpy).not.toHaveBeenCalledWith('#1 DONE 0.1s\n');
+      stderrSpy.mockRestore();
+    });
+
+    it('should report builds that exceed the timeout', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+      mockSpawn.mockImplementation(() => {
+        const child = Object.assign(new EventEmitter(), {
+          stdout: Object.assign(new EventEmitter(), { setEncoding: jest.fn() }),
+          stderr: Object.assign(new EventEmitter(), { setEncoding: jest.fn() }),
+          kill: jest.fn(() => child.emit('close', null, 'SIGTERM')),
+        });
+        return child as never;
+      });
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await executor(
+        {
+          ...baseOptions,
+          timeout: 0.01,
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        "\nError: Docker build for 'test-app' timed out after 0.01s and was stopped."
+      );
+      errorSpy.mockRestore();
+    });
+
+    it('should explain when Docker cannot be started', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+      mockSpawn.mockImplementation(() => {
+        const child = Object.assign(new EventEmitter(), {
+          stdout: Object.assign(new EventEmitter(), { setEncoding: jest.fn() }),
+          stderr: Object.assign(new EventEmitter(), { setEncoding: jest.fn() }),
+        });
+        setImmediate(() =>
+          child.emit('error', new Error('spawn docker ENOENT'))
+        );
+        return child as never;
+      });
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await executor(baseOptions, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(errorSpy.mock.calls.flat().join('\n')).toContain(
+        'Ensure Docker is installed and on the PATH.'
+      );
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('Generated Dockerfile', () => {
+    const options: TagAndBuildExecutorSchema = {
+      ...baseOptions,
+      ociLabels: false,
+      generateDockerfile: { port: 8080 },
+    };
+    let workspaceRoot: string;
+    let outputDir: string;
+
+    beforeEach(() => {
+      workspaceRoot = mkdtempSync(join(tmpdir(), 'tag-and-build-'));
+      outputDir = join(workspaceRoot, 'dist/apps/test-app');
+      mkdirSync(join(workspaceRoot, 'apps/test-app'), { recursive: true });
+      mkdirSync(outputDir, { recursive: true });
+      writeFileSync(join(outputDir, 'main.js'), '');
+      writeFileSync(join(outputDir, 'package.json'), '{}');
+      mockContext.root = workspaceRoot;
+      jest.spyOn(console, 'log').mockImplementation();
+
+      mockGetOutputs.mockReturnValue(['dist/apps/test-app']);
+      mockDetectPackageManager.mockReturnValue('npm');
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      rmSync(workspaceRoot, { recursive: true, force: true });
+    });
+
+    it('should build the output with a generated Dockerfile', async () => {
+      writeFileSync(join(outputDir, 'package-lock.json'), '{}');
+
+      const result = await executor(options, mockContext);
+
+      const dockerfile = join(
+        workspaceRoot,
+        'tmp/dockerfiles/test-app/Dockerfile'
+      );
+      expect(result.success).toBe(true);
+      expect(dockerBuildCall()[1]).toEqual(
+        expect.arrayContaining(['-f', dockerfile, outputDir])
+      );
+      const content = readFileSync(dockerfile, 'utf-8');
+      expect(content).toContain('RUN npm ci --omit=dev');
+      expect(content).toContain('EXPOSE 8080');
+    });
+
+    it('should prefer the Dockerfile of the project', async () => {
+      writeFileSync(
+        join(workspaceRoot, 'apps/test-app/Dockerfile'),
+        'FROM scratch\n'
+      );
+
+      const result = await executor(options, mockContext);
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain(
+        `-f ${join(workspaceRoot, 'apps/test-app/Dockerfile')} ${join(
+          workspaceRoot,
+          'apps/test-app'
+        )}`
+      );
+    });
+
+    it('should fail before docker when the pruned lockfile is missing', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await executor(options, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        `\nError: Cannot build the generated Dockerfile of 'test-app': package-lock.json not found in ${outputDir}. Let the build write a pruned package.json and lockfile, e.g. with 'generatePackageJson'.`
+      );
+      expect(mockSpawn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Multi-platform Builds', () => {
+    const options: TagAndBuildExecutorSchema = {
+      ...baseOptions,
+      push: true,
+    };
+
+    beforeEach(() => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+    });
+
+    it('should pass platforms and builder to docker buildx', async () => {
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(
+        {
+          ...options,
+          platforms: ['linux/amd64', 'linux/arm64'],
+          builder: 'multiarch',
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockPromisifiedExec).toHaveBeenCalledWith('docker', [
+        'buildx',
+        'inspect',
+        'multiarch',
+      ]);
+      expect(dockerCommand()).toContain(
+        'docker buildx build --push --builder multiarch --platform linux/amd64,linux/arm64 -t test-repo/test-app:1.2.3'
+      );
+    });
+
+    it('should create the builder with the configured driver when it is missing', async () => {
+      mockPromisifiedExec.mockImplementation(
+        async (command: string, args?: string[]) => {
+          if (args?.[1] === 'inspect') {
+            throw new Error('no builder "multiarch" found');
+          }
+          return { stdout: 'abc1234' };
+        }
+      );
+
+      const result = await executor(
+        { ...options, builder: 'multiarch', builderDriver: 'kubernetes' },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockPromisifiedExec).toHaveBeenCalledWith('docker', [
+        'buildx',
+        'create',
+        '--name',
+        'multiarch',
+        '--driver',
+        'kubernetes',
+      ]);
+    });
+
+    it('should reject loading a multi-platform image without push before building', async () => {
+      const result = await executor(
+        {
+          ...options,
+          push: false,
+          load: true,
+          platforms: ['linux/amd64', 'linux/arm64'],
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(mockRunExecutor).not.toHaveBeenCalled();
+      expect(mockPromisifiedExec).not.toHaveBeenCalled();
+    });
+
+    it('should allow loading a single-platform image', async () => {
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+
+      const result = await executor(
+        {
+          ...options,
+          push: false,
+          load: true,
+          platforms: ['linux/arm64'],
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain(
+        'docker buildx build --load --platform linux/arm64'
+      );
+    });
+
+    it('should reject malformed platforms', async () => {
+      const result = await executor(
+        { ...options, platforms: ['amd64'] },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(mockRunExecutor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Build Cache', () => {
+    const options: TagAndBuildExecutorSchema = {
+      ...baseOptions,
+      push: true,
+    };
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv };
+      delete process.env.GITHUB_HEAD_REF;
+      delete process.env.GITHUB_REF_NAME;
+      delete process.env.CI_COMMIT_REF_NAME;
+      delete process.env.BUILDKITE_BRANCH;
+      delete process.env.GITHUB_REF;
+
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockImplementation(async (command: string) =>
+        command === 'git rev-parse --abbrev-ref HEAD'
+          ? { stdout: 'feature/login\n' }
+          : { stdout: 'abc1234' }
+      );
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    it('should default the registry cache ref to a buildcache tag', async () => {
+      const result = await executor(
+        { ...options, cache: { type: 'registry' } },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain(
+        '--cache-from type=registry,ref=test-repo/test-app:buildcache --cache-to type=registry,ref=test-repo/test-app:buildcache,mode=max'
+      );
+    });
+
+    it('should use a per-branch ref and fall back to the shared cache', async () => {
+      const result = await executor(
+        { ...options, cache: { type: 'registry', perBranch: true } },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain(
+        '--cache-from type=registry,ref=test-repo/test-app:buildcache-feature-login --cache-from type=registry,ref=test-repo/test-app:buildcache --cache-to type=registry,ref=test-repo/test-app:buildcache-feature-login,mode=max'
+      );
+    });
+
+    it('should prefer the branch from CI environment variables', async () => {
+      process.env.GITHUB_HEAD_REF = 'fix/typo';
+
+      const result = await executor(
+        { ...options, cache: { type: 'registry', perBranch: true } },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockPromisifiedExec).not.toHaveBeenCalledWith(
+        'git rev-parse --abbrev-ref HEAD'
+      );
+      expect(dockerCommand()).toContain(
+        '--cache-to type=registry,ref=test-repo/test-app:buildcache-fix-typo,mode=max'
+      );
+    });
+
+    it('should use a local cache directory under the workspace root', async () => {
+      const result = await executor(
+        { ...options, cache: { type: 'local', mode: 'min' } },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain(
+        '--cache-from type=local,src=/test/root/tmp/buildx-cache/test-app --cache-to type=local,dest=/test/root/tmp/buildx-cache/test-app,mode=min'
+      );
+    });
+
+    it('should embed an inline cache and only read it when export is disabled', async () => {
+      const result = await executor(
+        {
+          ...options,
+          cache: {
+            type: 'inline',
+            ref: 'test-repo/test-app:1.2',
+            export: false,
+          },
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain(
+        '--cache-from type=registry,ref=test-repo/test-app:1.2'
+      );
+      expect(dockerCommand()).not.toContain('--cache-to');
+    });
+  });
+
+  describe('Snapshot Builds', () => {
+    const options: TagAndBuildExecutorSchema = {
+      ...baseOptions,
+      push: true,
+      generateMajorMinor: true,
+      dryRun: true,
+      ociLabels: false,
+    };
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv };
+      for (const name of [
+        'GITHUB_HEAD_REF',
+        'GITHUB_REF_NAME',
+        'GITHUB_REF',
+        'CI_COMMIT_REF_NAME',
+        'CI_MERGE_REQUEST_IID',
+        'BUILDKITE_BRANCH',
+        'BUILDKITE_PULL_REQUEST',
+      ]) {
+        delete process.env[name];
+      }
+
+      mockReadJsonFile.mockReturnValue({});
+      mockPromisifiedExec.mockImplementation(async (command: string) => {
+        if (command === 'git rev-parse --abbrev-ref HEAD') {
+          return { stdout: 'feature/login\n' };
+        }
+        if (command === 'git rev-parse HEAD') {
+          return { stdout: 'abc1234def5678\n' };
+        }
+        return { stdout: '' };
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    it('should fail without a version when snapshots are off', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await executor(options, mockContext);
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should fall back to a branch snapshot when no version is found', async () => {
+      jest.spyOn(console, 'log').mockImplementation();
+
+      const result = await executor(
+        { ...options, snapshot: 'fallback', additionalTags: ['stable'] },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(plan()).toMatchObject({
+        version: '0.0.0-feature-login.abc1234',
+        versionSource: 'snapshot',
+        dockerTags: [
+          'test-repo/test-app:0.0.0-feature-login.abc1234',
+          'test-repo/test-app:branch-feature-login',
+          'test-repo/test-app:sha-abc1234',
+        ],
+      });
+    });
+
+    it('should keep the release version when one is found', async () => {
+      jest.spyOn(console, 'log').mockImplementation();
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+
+      const result = await executor(
+        { ...options, snapshot: 'fallback' },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(plan()).toMatchObject({
+        version: '1.2.3',
+        versionSource: 'package-json',
+      });
+    });
+
+    it('should tag pull request builds with the PR number', async () => {
+      jest.spyOn(console, 'log').mockImplementation();
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      process.env.GITHUB_REF = 'refs/pull/42/merge';
+      process.env.GITHUB_HEAD_REF = 'feature/login';
+
+      const result = await executor(
+        { ...options, snapshot: 'always' },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockReadJsonFile).not.toHaveBeenCalled();
+      expect(plan()).toMatchObject({
+        version: '0.0.0-pr-42.abc1234',
+        dockerTags: [
+          'test-repo/test-app:0.0.0-pr-42.abc1234',
+          'test-repo/test-app:pr-42',
+          'test-repo/test-app:sha-abc1234',
+        ],
+      });
+    });
+
+    it('should detect GitLab merge requests', async () => {
+      jest.spyOn(console, 'log').mockImplementation();
+      process.env.CI_MERGE_REQUEST_IID = '7';
+
+      const result = await executor(
+        { ...options, snapshot: 'always' },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(plan().version).toBe('0.0.0-pr-7.abc1234');
+    });
+
+    it('should fail on a detached HEAD without CI variables', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockPromisifiedExec.mockImplementation(async (command: string) => ({
+        stdout:
+          command === 'git rev-parse --abbrev-ref HEAD' ? 'HEAD' : 'abc1234',
+      }));
+
+      const result = await executor(
+        { ...options, snapshot: 'always' },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('without a branch or pull request')
+      );
+    });
+  });
+
+  describe('Build Args, Secrets and Labels', () => {
+    const originalEnv = process.env;
+    let logSpy: jest.SpyInstance;
+
+    const loggedOutput = () =>
+      logSpy.mock.calls.map((args) => args.join(' ')).join('\n');
+
+    beforeEach(() => {
+      process.env = { ...originalEnv, NPM_TOKEN: 'npm_s3cr3t_value' };
+      logSpy = jest.spyOn(console, 'log').mockImplementation();
+
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+    });
+
+    afterEach(() => {
+      logSpy.mockRestore();
+      process.env = originalEnv;
+    });
+
+    it('should interpolate build args and labels', async () => {
+      const result = await executor(
+        {
+          ...baseOptions,
+          buildArgs: {
+            IMAGE_REF: '${appName}:${version}-${sha}',
+            NODE_ENV: '${env.TEST_NODE_ENV}',
+          },
+          labels: { 'com.example.release': 'v${version}' },
+          target: 'runtime',
+          ociLabels: false,
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain(
+        '--build-arg BUILD_SHA=abc1234 --build-arg IMAGE_REF=test-app:1.2.3-abc1234 --build-arg NODE_ENV= --label com.example.release=v1.2.3 --target runtime'
+      );
+    });
+
+    it('should fail before building on unknown placeholders', async () => {
+      const result = await executor(
+        { ...baseOptions, buildArgs: { BRANCH: '${branch}' } },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(mockRunExecutor).not.toHaveBeenCalled();
+    });
+
+    it('should pass secrets by reference and resolve files from the workspace root', async () => {
+      const result = await executor(
+        {
+          ...baseOptions,
+          secrets: [
+            { id: 'npmrc', src: '.npmrc' },
+            { id: 'npm_token', env: 'NPM_TOKEN' },
+          ],
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain(
+        '--secret id=npmrc,src=/test/root/.npmrc --secret id=npm_token,env=NPM_TOKEN'
+      );
+      expect(dockerCommand()).not.toContain('npm_s3cr3t_value');
+    });
+
+    it('should redact secret values from all output', async () => {
+      const result = await executor(
+        {
+          ...baseOptions,
+          secrets: [{ id: 'npm_token', env: 'NPM_TOKEN' }],
+          buildArgs: {
+            AUTH_TOKEN: '${env.NPM_TOKEN}',
+            API_KEY: 'hard-coded-key',
+          },
+          dryRun: true,
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      const output = loggedOutput();
+      expect(output).toContain('--build-arg AUTH_TOKEN=***');
+      expect(output).toContain('--build-arg API_KEY=***');
+      expect(output).not.toContain('npm_s3cr3t_value');
+      expect(output).not.toContain('hard-coded-key');
+    });
+
+    it('should reject secrets without exactly one source', async () => {
+      const result = await executor(
+        {
+          ...baseOptions,
+          secrets: [{ id: 'npm_token', env: 'NPM_TOKEN', src: '.npmrc' }],
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(mockRunExecutor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('OCI Labels', () => {
+    const fullSha = 'abc1234def5678abc1234def5678abc1234def56';
+
+    beforeEach(() => {
+      buildSucceeds();
+      mockPromisifiedExec.mockImplementation(async (command: string) =>
+        command === 'git remote get-url origin'
+          ? { stdout: 'git@github.com:org/monorepo.git\n' }
+          : { stdout: `${fullSha}\n` }
+      );
+    });
+
+    it('should add OCI labels from package.json and git by default', async () => {
+      mockReadJsonFile.mockReturnValue({
+        name: '@org/test-app',
+        version: '1.2.3',
+        description: 'The test app',
+        license: 'MIT',
+      });
+
+      const result = await executor(baseOptions, mockContext);
+
+      expect(result.success).toBe(true);
+      const command = dockerCommand();
+      expect(command).toContain(
+        '--label org.opencontainers.image.version=1.2.3'
+      );
+      expect(command).toContain(
+        `--label org.opencontainers.image.revision=${fullSha}`
+      );
+      expect(command).toMatch(
+        /--label org\.opencontainers\.image\.created=\d{4}-\d{2}-\d{2}T[\d:.]+Z/
+      );
+      expect(command).toContain(
+        '--label org.opencontainers.image.source=https://github.com/org/monorepo'
+      );
+      expect(command).toContain(
+        '--label org.opencontainers.image.title=@org/test-app'
+      );
+      expect(command).toContain(
+        "--label 'org.opencontainers.image.description=The test app'"
+      );
+      expect(command).toContain(
+        '--label org.opencontainers.image.licenses=MIT'
+      );
+      expect(command).toContain('--label nx.project=test-app');
+      expect(command).toContain('--build-arg BUILD_SHA=abc1234');
+    });
+
+    it('should prefer the package.json repository over the git remote', async () => {
+      mockReadJsonFile.mockReturnValue({
+        version: '1.2.3',
+        repository: {
+          type: 'git',
+          url: 'git+https://github.com/org/test-app.git',
+        },
+      });
+
+      const result = await executor(baseOptions, mockContext);
+
+      expect(result.success).toBe(true);
+      expect(mockPromisifiedExec).not.toHaveBeenCalledWith(
+        'git remote get-url origin'
+      );
+      expect(dockerCommand()).toContain(
+        '--label org.opencontainers.image.source=https://github.com/org/test-app'
+      );
+    });
+
+    it('should apply overrides and let user labels win', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3', license: 'MIT' });
+
+      const result = await executor(
+        {
+          ...baseOptions,
+          ociLabelOverrides: { vendor: 'Example Corp', licenses: '' },
+          labels: { 'org.opencontainers.image.title': 'Custom Title' },
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      const command = dockerCommand();
+      expect(command).toContain(
+        "--label 'org.opencontainers.image.vendor=Example Corp'"
+      );
+      expect(command).toContain(
+        "--label 'org.opencontainers.image.title=Custom Title'"
+      );
+      expect(command).not.toContain('org.opencontainers.image.title=test-app');
+      expect(command).not.toContain('org.opencontainers.image.licenses');
+    });
+
+    it('should not add OCI labels when disabled', async () => {
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+
+      const result = await executor(
+        { ...baseOptions, ociLabels: false },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).not.toContain('--label');
+      expect(mockPromisifiedExec).not.toHaveBeenCalledWith(
+        'git remote get-url origin'
+      );
+    });
+  });
+
+  describe('Build Metadata', () => {
+    const options: TagAndBuildExecutorSchema = {
+      ...baseOptions,
+      push: true,
+      platforms: ['linux/amd64', 'linux/arm64'],
+      ociLabels: false,
+    };
+    let workspaceRoot: string;
+
+    beforeEach(() => {
+      workspaceRoot = mkdtempSync(join(tmpdir(), 'tag-and-build-'));
+      mockContext.root = workspaceRoot;
+      mkdirSync(join(workspaceRoot, 'apps/test-app'), { recursive: true });
+      writeFileSync(
+        join(workspaceRoot, 'apps/test-app/Dockerfile'),
+        'FROM scratch\n'
+      );
+
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234def5678\n' });
+      mockSpawn.mockImplementation((command, args) => {
+        const metadataFile = args[args.indexOf('--metadata-file') + 1];
+        writeFileSync(
+          metadataFile,
+          JSON.stringify({ 'containerimage.digest': 'sha256:0123abcd' })
+        );
+        return fakeProcess();
+      });
+    });
+
+    afterEach(() => {
+      rmSync(workspaceRoot, { recursive: true, force: true });
+    });
+
+    it('should return the tags, digest and timings in the result', async () => {
+      const result = await executor(options, mockContext);
+
+      expect(result).toMatchObject({
+        success: true,
+        appName: 'test-app',
+        version: '1.2.3',
+        versionSource: 'package-json',
+        imageName: 'test-repo/test-app',
+        tags: ['test-repo/test-app:1.2.3', 'test-repo/test-app:sha-abc1234'],
+        digest: 'sha256:0123abcd',
+        platforms: ['linux/amd64', 'linux/arm64'],
+        pushed: true,
+        gitSha: 'abc1234def5678',
+        timings: {
+          buildTargetMs: expect.any(Number),
+          imageBuildMs: expect.any(Number),
+          totalMs: expect.any(Number),
+        },
+      });
+    });
+
+    it('should write the metadata file relative to the workspace root', async () => {
+      const result = await executor(
+        {
+          ...options,
+          metadataFile: 'dist/apps/test-app/image-metadata.json',
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      const metadata = JSON.parse(
+        readFileSync(
+          join(workspaceRoot, 'dist/apps/test-app/image-metadata.json'),
+          'utf-8'
+        )
+      );
+      const { success, ...expected } = result;
+      expect(success).toBe(true);
+      expect(metadata).toEqual(expected);
+    });
+
+    it('should report no digest when buildx did not write one', async () => {
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+      mockSpawn.mockImplementation(() => fakeProcess());
+
+      const result = await executor(options, mockContext);
+
+      expect(result).toMatchObject({ success: true, digest: null });
+    });
+  });
+
+  describe('Attestations and Signing', () => {
+    const options: TagAndBuildExecutorSchema = {
+      ...baseOptions,
+      push: true,
+      ociLabels: false,
+    };
+    let workspaceRoot: string;
+
+    beforeEach(() => {
+      workspaceRoot = mkdtempSync(join(tmpdir(), 'tag-and-build-'));
+      mockContext.root = workspaceRoot;
+      mkdirSync(join(workspaceRoot, 'apps/test-app'), { recursive: true });
+      writeFileSync(
+        join(workspaceRoot, 'apps/test-app/Dockerfile'),
+        'FROM scratch\n'
+      );
+
+      jest.spyOn(console, 'log').mockImplementation();
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+      mockSpawn.mockImplementation((command, args) => {
+        if (command === 'docker') {
+          writeFileSync(
+            args[args.indexOf('--metadata-file') + 1],
+            JSON.stringify({ 'containerimage.digest': 'sha256:0123abcd' })
+          );
+        }
+        return fakeProcess();
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      rmSync(workspaceRoot, { recursive: true, force: true });
+    });
+
+    it('should attach the SBOM and provenance with buildx', async () => {
+      const result = await executor(
+        { ...options, sbom: true, provenance: true },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain('--sbom true --provenance mode=max');
+      expect(dockerCommand()).toContain(
+        '--build-arg NX_PROJECT_NAME=test-app --build-arg NX_BUILD_TARGET=build:production --build-arg APP_VERSION_SOURCE=package-json'
+      );
+    });
+
+    it('should warn that the minimal provenance misses the Nx fields', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      const result = await executor(
+        { ...options, provenance: 'min' },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(dockerCommand()).toContain('--provenance mode=min');
+      expect(dockerCommand()).not.toContain('NX_PROJECT_NAME');
+      expect(warnSpy).toHaveBeenCalledWith(
+        "Warning: The minimal provenance of 'test-app' has no build args, so it does not record the Nx project, build target and version source. Use 'provenance: max' to record them."
+      );
+    });
+
+    it('should only turn off the default provenance when asked to', async () => {
+      await executor(options, mockContext);
+      expect(dockerCommand()).not.toContain('--provenance');
+
+      mockSpawn.mockClear();
+      await executor({ ...options, provenance: false }, mockContext);
+      expect(dockerCommand()).toContain('--provenance false');
+      expect(dockerCommand()).not.toContain('NX_PROJECT_NAME');
+    });
+
+    it('should write the SBOM of the pushed image with syft', async () => {
+      const result = await executor(
+        {
+          ...options,
+          sbomFile: 'dist/apps/test-app/sbom.cdx.json',
+          sbomFormat: 'cyclonedx',
+        },
+        mockContext
+      );
+
+      const sbomPath = join(workspaceRoot, 'dist/apps/test-app/sbom.cdx.json');
+      expect(result).toMatchObject({ success: true, sbomFile: sbomPath });
+      expect(mockSpawn).toHaveBeenLastCalledWith(
+        'syft',
+        [
+          'registry:test-repo/test-app@sha256:0123abcd',
+          '-o',
+          `cyclonedx-json=${sbomPath}`,
+        ],
+        expect.anything()
+      );
+    });
+
+    it('should read the SBOM of local podman images from their storage', async () => {
+      await executor(
+        {
+          ...options,
+          push: false,
+          engine: 'podman',
+          sbomFile: 'dist/sbom.json',
+        },
+        mockContext
+      );
+
+      expect(mockSpawn.mock.calls[1][1]).toEqual([
+        'podman:test-repo/test-app:1.2.3',
+        '-o',
+        `spdx-json=${join(workspaceRoot, 'dist/sbom.json')}`,
+      ]);
+    });
+
+    it('should require an image to write the SBOM file from', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await executor(
+        { ...options, push: false, sbomFile: 'dist/sbom.json' },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        "\nError: 'sbomFile' needs an image to read. Set 'push' or 'load', or attach the SBOM with 'sbom' instead."
+      );
+    });
+
+    it('should sign the digest in every repository with cosign', async () => {
+      const result = await executor(
+        {
+          ...options,
+          registries: ['ghcr.io/org'],
+          sign: { key: 'cosign.key', annotations: { team: 'web' } },
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      const signCalls = mockSpawn.mock.calls.filter(
+        ([command]) => command === 'cosign'
+      );
+      expect(signCalls.map(([, args]) => args)).toEqual(
+        ['test-repo/test-app', 'ghcr.io/org/test-app'].map((image) => [
+          'sign',
+          '--yes',
+          '--key',
+          join(workspaceRoot, 'cosign.key'),
+          '-a',
+          'nx.project=test-app',
+          '-a',
+          'org.opencontainers.image.version=1.2.3',
+          '-a',
+          'team=web',
+          `${image}@sha256:0123abcd`,
+        ])
+      );
+    });
+
+    it('should not sign without a digest', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      jest.spyOn(console, 'warn').mockImplementation();
+      mockSpawn.mockImplementation(() => fakeProcess());
+      process.env.COSIGN_PRIVATE_KEY = 'private key';
+
+      try {
+        const result = await executor(
+          { ...options, sign: { keyEnv: 'COSIGN_PRIVATE_KEY' } },
+          mockContext
+        );
+
+        expect(result.success).toBe(false);
+      } finally {
+        delete process.env.COSIGN_PRIVATE_KEY;
+      }
+      expect(errorSpy).toHaveBeenCalledWith(
+        "\nError: Could not sign the image of 'test-app', as Docker did not report its digest."
+      );
+      expect(mockSpawn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only sign pushed images', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await executor(
+        { ...options, push: false, sign: { key: 'cosign.key' } },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        "\nError: 'sign' needs 'push', as cosign signs the digest in the registry."
+      );
+      expect(mockRunExecutor).not.toHaveBeenCalled();
+    });
+
+    it('should reject attestations with other engines', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await executor(
+        { ...options, engine: 'podman', sbom: true, provenance: 'min' },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        '\nError: The podman engine does not support sbom, provenance. Remove these options or use the docker engine.'
+      );
+    });
+  });
+
+  describe('Dry Run', () => {
+    it('should print the plan without running the build target or docker', async () => {
+      const options: TagAndBuildExecutorSchema = {
+        ...baseOptions,
+        push: true,
+        generateMajorMinor: true,
+        dryRun: true,
+        ociLabels: false,
+      };
+      const logSpy = jest.spyOn(console, 'log').mockImplementation();
+
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
       mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
 
       const result = await executor(options, mockContext);
 
       expect(result.success).toBe(true);
-      expect(mockPromisifiedExec).toHaveBeenCalledWith(
+      expect(mockRunExecutor).not.toHaveBeenCalled();
+      expect(mockPromisifiedExec).toHaveBeenCalledTimes(1); // git rev-parse only
+      expect(mockPromisifiedExec).toHaveBeenCalledWith('git rev-parse HEAD');
+
+      expect(plan()).toEqual({
+        appName: 'test-app',
+        version: '1.2.3',
+        versionSource: 'package-json',
+        gitSha: 'abc1234',
+        buildTarget: 'build',
+        dockerTags: [
+          'test-repo/test-app:1.2.3',
+          'test-repo/test-app:1.2',
+          'test-repo/test-app:1',
+          'test-repo/test-app:sha-abc1234',
+        ],
+        platforms: [],
+        push: true,
+        dockerCommand:
+          'docker buildx build --push -t test-repo/test-app:1.2.3 -t test-repo/test-app:1.2 -t test-repo/test-app:1 -t test-repo/test-app:sha-abc1234 -f /test/root/apps/test-app/Dockerfile /test/root/apps/test-app --build-arg APP_VERSION=1.2.3 --build-arg BUILD_SHA=abc1234',
+      });
+
+      logSpy.mockRestore();
+    });
+
+    it('should still fail when no version can be determined', async () => {
+      const options: TagAndBuildExecutorSchema = {
+        ...baseOptions,
+        dryRun: true,
+      };
+
+      mockReadJsonFile.mockReturnValue({});
+      mockPromisifiedExec.mockResolvedValue({ stdout: '' });
+
+      const result = await executor(options, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(mockRunExecutor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Registry Authentication', () => {
+    const options: TagAndBuildExecutorSchema = {
+      ...baseOptions,
+      dockerRepository: 'localhost:5000',
+      push: true,
+      ociLabels: false,
+      registryAuth: [
+        {
+          registry: 'localhost:5000',
+          usernameEnv: 'REGISTRY_USER',
+          passwordEnv: 'REGISTRY_PASSWORD',
+        },
+      ],
+    };
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      process.env = {
+        ...originalEnv,
+        REGISTRY_USER: 'ci',
+        REGISTRY_PASSWORD: 'hunter22',
+      };
+      jest.spyOn(console, 'log').mockImplementation();
+
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      process.env = originalEnv;
+    });
+
+    it('should log in with a temporary Docker config before building', async () => {
+      const result = await executor(options, mockContext);
+
+      expect(result.success).toBe(true);
+      expect(mockSpawn).toHaveBeenCalledWith(
+        'docker',
+        ['login', 'localhost:5000', '--username', 'ci', '--password-stdin'],
+        expect.anything()
+      );
+      expect(mockSpawn.mock.results[0].value.stdin.end).toHaveBeenCalledWith(
+        'hunter22'
+      );
+
+      const dockerConfig = mockSpawn.mock.calls[0][2].env.DOCKER_CONFIG;
+      expect(dockerConfig).toContain('docker-config-');
+      expect(dockerCommand()).not.toContain('hunter22');
+      expect(dockerBuildCall()[2].env.DOCKER_CONFIG).toBe(dockerConfig);
+      expect(actualExistsSync(dockerConfig)).toBe(false);
+    });
+
+    it('should fail before building when a credential is missing', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      delete process.env.REGISTRY_PASSWORD;
+
+      const result = await executor(options, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        "Error: Environment variable REGISTRY_PASSWORD with the password for 'localhost:5000' is not set."
+      );
+      expect(mockRunExecutor).not.toHaveBeenCalled();
+    });
+
+    it('should report rejected logins without the password', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockSpawn.mockImplementation(() =>
+        fakeProcess({ exitCode: 1, output: 'unauthorized: hunter22 rejected' })
+      );
+
+      const result = await executor(options, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        "\nError: Registry login for 'test-app' failed: unauthorized: *** rejected"
+      );
+      expect(dockerBuildCall()).toBeUndefined();
+    });
+
+    it('should explain pushes rejected for missing authentication', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockSpawn.mockImplementation(() =>
+        fakeProcess({
+          exitCode: 1,
+          output: 'ERROR: failed to push: 401 Unauthorized\n',
+        })
+      );
+
+      const result = await executor(
+        { ...options, registryAuth: undefined },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(mockSpawn).toHaveBeenCalledTimes(1); // no docker login
+      expect(errorSpy).toHaveBeenCalledWith(
         expect.stringContaining(
-          'docker buildx build -t "test-repo/test-app:1.2.3" -t "test-repo/test-app:sha-abc1234" -f "/test/root/docker/Dockerfile.prod" "/test/root/apps/test-app" --build-arg APP_VERSION="1.2.3" --build-arg BUILD_SHA="abc1234"'
+          "The registry rejected the push of 'test-app' because Docker is not authenticated"
         )
       );
     });
+  });
 
-    it('should handle Docker build failures', async () => {
-      const options: TagAndBuildExecutorSchema = {
-        appName: 'test-app',
-        dockerRepository: 'test-repo',
-        buildTarget: 'build',
-        dockerfile: 'Dockerfile',
-        context: '.',
-        push: false,
-      };
+  describe('Container Engines', () => {
+    const options: TagAndBuildExecutorSchema = {
+      ...baseOptions,
+      dockerRepository: 'localhost:5000',
+      push: true,
+      ociLabels: false,
+    };
+    const originalEnv = process.env;
 
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation();
       mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
-      mockRunExecutor.mockResolvedValue(
-        (async function* () {
-          yield { success: true };
-        })()
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      process.env = originalEnv;
+    });
+
+    it('should build with podman and push every tag', async () => {
+      mockSpawn.mockImplementation((command, args) => {
+        const digestFile = args[args.indexOf('--digestfile') + 1];
+        if (args[0] === 'push') {
+          writeFileSync(digestFile, 'sha256:abc\n');
+        }
+        return fakeProcess();
+      });
+
+      const result = await executor(
+        { ...options, engine: 'podman' },
+        mockContext
       );
-      mockPromisifiedExec
-        .mockResolvedValueOnce({ stdout: 'abc1234' })
-        .mockRejectedValueOnce(new Error('Docker build failed'));
+
+      expect(result.success).toBe(true);
+      expect(
+        mockSpawn.mock.calls.map(([command, args]) =>
+          formatCommand(command, (args as string[]).slice(0, 1))
+        )
+      ).toEqual(['podman build', 'podman push', 'podman push']);
+      expect(mockSpawn.mock.calls[1][1]).toContain(
+        'localhost:5000/test-app:1.2.3'
+      );
+      expect(mockSpawn.mock.calls[2][1]).toContain(
+        'localhost:5000/test-app:sha-abc1234'
+      );
+      expect((result as { digest?: string }).digest).toBe('sha256:abc');
+    });
+
+    it('should write kaniko credentials into the temporary config', async () => {
+      process.env = { ...originalEnv, REGISTRY_PASSWORD: 'hunter22' };
+      let config: unknown;
+      mockSpawn.mockImplementation((command, args, spawnOptions) => {
+        config = JSON.parse(
+          readFileSync(`${spawnOptions.env.DOCKER_CONFIG}/config.json`, 'utf-8')
+        );
+        return fakeProcess();
+      });
+
+      const result = await executor(
+        {
+          ...options,
+          engine: 'kaniko',
+          registryAuth: [
+            {
+              registry: 'localhost:5000',
+              username: 'ci',
+              passwordEnv: 'REGISTRY_PASSWORD',
+            },
+          ],
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockSpawn).toHaveBeenCalledTimes(1);
+      expect(mockSpawn.mock.calls[0][0]).toBe('executor');
+      expect(config).toEqual({
+        auths: {
+          'localhost:5000': {
+            auth: Buffer.from('ci:hunter22').toString('base64'),
+          },
+        },
+      });
+    });
+
+    it('should reject options the engine does not support', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await executor(
+        {
+          ...options,
+          engine: 'buildah',
+          platforms: ['linux/amd64', 'linux/arm64'],
+          cache: { type: 'registry' },
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        '\nError: The buildah engine does not support cache, multiple platforms. Remove these options or use the docker engine.'
+      );
+      expect(mockRunExecutor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Vulnerability Scanning', () => {
+    const options: TagAndBuildExecutorSchema = {
+      ...baseOptions,
+      dockerRepository: 'localhost:5000',
+      push: true,
+      ociLabels: false,
+    };
+    let reportDir: string;
+
+    const pushedDigest = `sha256:${'b'.repeat(64)}`;
+
+    /** Stubs the scanners: they write `findings` as their JSON report. */
+    const stubScanner = (findings: { id: string; severity: string }[]) =>
+      mockSpawn.mockImplementation((command, args) => {
+        if (command === 'trivy' && args[0] === 'image') {
+          writeFileSync(
+            args[args.indexOf('--output') + 1],
+            JSON.stringify({
+              Results: [
+                {
+                  Vulnerabilities: findings.map(({ id, severity }) => ({
+                    VulnerabilityID: id,
+                    PkgName: 'openssl',
+                    Severity: severity,
+                  })),
+                },
+              ],
+            })
+          );
+        }
+        if (command === 'grype') {
+          writeFileSync(
+            args[args.indexOf('-o') + 1].replace(/^json=/, ''),
+            JSON.stringify({
+              matches: findings.map(({ id, severity }) => ({
+                vulnerability: { id, severity },
+                artifact: { name: 'openssl' },
+              })),
+            })
+          );
+        }
+        if (command === 'docker' && args[0] === 'push') {
+          return fakeProcess({
+            output: `${args[1]
+              .split(':')
+              .pop()}: digest: ${pushedDigest} size: 1570\n`,
+          });
+        }
+        return fakeProcess();
+      });
+
+    const spawnedCommands = () =>
+      mockSpawn.mock.calls.map(([command, args]) =>
+        formatCommand(command, (args as string[]).slice(0, 2))
+      );
+
+    beforeEach(() => {
+      reportDir = mkdtempSync(join(tmpdir(), 'scan-'));
+      jest.spyOn(console, 'log').mockImplementation();
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      rmSync(reportDir, { recursive: true, force: true });
+    });
+
+    it('should load, scan and then push the image', async () => {
+      stubScanner([{ id: 'CVE-2024-0001', severity: 'MEDIUM' }]);
+
+      const result = await executor(
+        { ...options, scan: { reportDir } },
+        mockContext
+      );
+
+      expect(result).toMatchObject({ success: true, digest: pushedDigest });
+      expect(spawnedCommands()).toEqual([
+        'docker buildx build',
+        'trivy image --format',
+        'trivy convert --format',
+        'docker push localhost:5000/test-app:1.2.3',
+        'docker push localhost:5000/test-app:sha-abc1234',
+      ]);
+      expect(mockSpawn.mock.calls[0][1]).toContain('--load');
+      expect(mockSpawn.mock.calls[0][1]).not.toContain('--push');
+      expect(mockSpawn.mock.calls[1][1]).toContain(
+        'localhost:5000/test-app:1.2.3'
+      );
+      expect(console.log).toHaveBeenCalledWith(
+        `Scan of 'test-app' passed (medium: 1). Reports: ${join(
+          reportDir,
+          'report.json'
+        )}, ${join(reportDir, 'report.sarif')}`
+      );
+    });
+
+    it('should not push when the scan finds blocking vulnerabilities', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      stubScanner([
+        { id: 'CVE-2024-0001', severity: 'CRITICAL' },
+        { id: 'CVE-2024-0002', severity: 'LOW' },
+      ]);
+
+      const result = await executor(
+        { ...options, scan: { reportDir, failOnSeverity: 'critical' } },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(spawnedCommands()).toEqual([
+        'docker buildx build',
+        'trivy image --format',
+        'trivy convert --format',
+      ]);
+      expect(errorSpy.mock.calls[0][0]).toContain(
+        "The image of 'test-app' has 1 vulnerabilities of severity 'critical' or higher (critical: 1), not pushing it:\n  - CVE-2024-0001 in openssl (critical)"
+      );
+    });
+
+    it('should scan the local podman storage with grype offline', async () => {
+      stubScanner([{ id: 'CVE-2024-0001', severity: 'High' }]);
+
+      const result = await executor(
+        {
+          ...options,
+          engine: 'podman',
+          scan: {
+            scanner: 'grype',
+            reportDir,
+            failOnSeverity: 'none',
+            offline: true,
+          },
+        },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(spawnedCommands()).toEqual([
+        'podman build -t',
+        'grype podman:localhost:5000/test-app:1.2.3 -o',
+        'podman push --digestfile',
+        'podman push --digestfile',
+      ]);
+      expect(mockSpawn.mock.calls[1][2].env.GRYPE_DB_AUTO_UPDATE).toBe('false');
+    });
+
+    it('should report a missing scanner', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockSpawn.mockImplementation((command) => {
+        if (command === 'trivy') {
+          throw new Error('spawn trivy ENOENT');
+        }
+        return fakeProcess();
+      });
+
+      const result = await executor(
+        { ...options, scan: { reportDir } },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        "\nError: Could not run Trivy for 'test-app': Error: spawn trivy ENOENT. Ensure Trivy is installed and on the PATH."
+      );
+      expect(dockerCommand()).not.toContain('--push');
+    });
+
+    it('should reject scanning with kaniko', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await executor(
+        { ...options, engine: 'kaniko', scan: true },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        '\nError: The kaniko engine does not support scan. Remove these options or use the docker engine.'
+      );
+    });
+
+    it('should plan the scan in a dry run', async () => {
+      await executor({ ...options, scan: true, dryRun: true }, mockContext);
+
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'trivy image --format json --output /test/root/dist/apps/test-app/scan/report.json localhost:5000/test-app:1.2.3'
+        )
+      );
+      expect(mockSpawn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Skip Existing Images', () => {
+    const options: TagAndBuildExecutorSchema = {
+      ...baseOptions,
+      dockerRepository: 'localhost:5000',
+      push: true,
+      ociLabels: false,
+      generateMajorMinor: true,
+      skipIfExists: true,
+    };
+    const digest = `sha256:${'a'.repeat(64)}`;
+
+    // A multi-arch index with attestations, as buildx prints it without a
+    // format that selects the digest.
+    const index = JSON.stringify(
+      {
+        schemaVersion: 2,
+        mediaType: 'application/vnd.oci.image.index.v1+json',
+        manifests: ['amd64', 'arm64', 'unknown'].map((architecture, i) => ({
+          mediaType: 'application/vnd.oci.image.manifest.v1+json',
+          digest: `sha256:${String(i).repeat(64)}`,
+          size: 1234,
+          platform: {
+            architecture,
+            os: architecture === 'unknown' ? 'unknown' : 'linux',
+          },
+        })),
+      },
+      null,
+      2
+    );
+
+    /** Stubs a registry that holds `images`, all with the same digest. */
+    const stubRegistry = (images: string[]) =>
+      mockSpawn.mockImplementation((command, args) => {
+        const image = args[args.length - 1];
+        const exists = images.includes(image);
+        if (command === 'crane' && args[0] === 'digest') {
+          return fakeProcess(
+            exists ? { output: `${digest}\n` } : { exitCode: 1 }
+          );
+        }
+        if (args[1] === 'imagetools' && args[2] === 'inspect') {
+          const format = args[args.indexOf('--format') + 1];
+          return fakeProcess(
+            exists
+              ? {
+                  output: `${
+                    format === '{{.Manifest.Digest}}' ? digest : index
+                  }\n`,
+                }
+              : { exitCode: 1, output: `ERROR: ${image}: not found` }
+          );
+        }
+        return fakeProcess();
+      });
+
+    const spawnedCommands = () =>
+      mockSpawn.mock.calls.map(([command, args]) =>
+        formatCommand(command, args as string[])
+      );
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation();
+      mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
+      buildSucceeds();
+      mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should only add the missing tags when the sha- image exists', async () => {
+      stubRegistry([
+        'localhost:5000/test-app:sha-abc1234',
+        'localhost:5000/test-app:1',
+      ]);
+
+      const result = await executor(options, mockContext);
+
+      expect(result).toMatchObject({
+        success: true,
+        cached: true,
+        digest,
+        tags: [
+          'localhost:5000/test-app:1.2.3',
+          'localhost:5000/test-app:1.2',
+          'localhost:5000/test-app:1',
+          'localhost:5000/test-app:sha-abc1234',
+        ],
+      });
+      expect(mockRunExecutor).not.toHaveBeenCalled();
+      expect(dockerBuildCall()).toBeUndefined();
+      expect(spawnedCommands().slice(-1)).toEqual([
+        'docker buildx imagetools create --tag localhost:5000/test-app:1.2.3 --tag localhost:5000/test-app:1.2 localhost:5000/test-app:sha-abc1234',
+      ]);
+    });
+
+    it('should build when the image is not in the registry', async () => {
+      stubRegistry([]);
 
       const result = await executor(options, mockContext);
 
+      expect(result).toMatchObject({ success: true, cached: false });
+      expect(mockRunExecutor).toHaveBeenCalled();
+      expect(dockerCommand()).toContain('--push');
+      expect(spawnedCommands()[0]).toBe(
+        "docker buildx imagetools inspect --format '{{.Manifest.Digest}}' localhost:5000/test-app:sha-abc1234"
+      );
+    });
+
+    it('should look for the Nx hash of the build inputs', async () => {
+      stubRegistry(['localhost:5000/test-app:inputs-123456789']);
+      mockContext.projectName = 'test-app';
+      mockContext.targetName = 'container';
+      mockContext.taskGraph = {
+        roots: [],
+        dependencies: {},
+        continuousDependencies: {},
+        tasks: {
+          'test-app:container': {
+            id: 'test-app:container',
+            target: { project: 'test-app', target: 'container' },
+            overrides: {},
+            outputs: [],
+            parallelism: true,
+            hash: '123456789',
+          },
+        },
+      } as never;
+
+      const result = await executor(
+        { ...options, engine: 'podman', skipIfExists: 'hash' },
+        mockContext
+      );
+
+      expect(result).toMatchObject({ success: true, cached: true });
+      expect(spawnedCommands()).toEqual([
+        'crane digest localhost:5000/test-app:inputs-123456789',
+        'crane digest localhost:5000/test-app:1.2.3',
+        'crane digest localhost:5000/test-app:1.2',
+        'crane digest localhost:5000/test-app:1',
+        'crane digest localhost:5000/test-app:sha-abc1234',
+        'crane tag localhost:5000/test-app:inputs-123456789 1.2.3',
+        'crane tag localhost:5000/test-app:inputs-123456789 1.2',
+        'crane tag localhost:5000/test-app:inputs-123456789 1',
+        'crane tag localhost:5000/test-app:inputs-123456789 sha-abc1234',
+      ]);
+    });
+
+    it('should require the Nx task hash for hash mode', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await executor(
+        { ...options, skipIfExists: 'hash' },
+        mockContext
+      );
+
       expect(result.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        "\nError: 'skipIfExists: hash' needs the Nx task hash of 'test-app', which is only known when the target runs through Nx."
+      );
+    });
+
+    it('should reject signing or writing an SBOM file', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      stubRegistry(['localhost:5000/test-app:sha-abc1234']);
+
+      const signed = await executor(
+        { ...options, sign: { key: 'cosign.key' } },
+        mockContext
+      );
+      const scanned = await executor(
+        { ...options, sbomFile: 'dist/sbom.json' },
+        mockContext
+      );
+
+      expect(signed.success).toBe(false);
+      expect(scanned.success).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith(
+        "\nError: 'skipIfExists' cannot be combined with 'sign', as an existing image is not built again."
+      );
+      expect(errorSpy).toHaveBeenCalledWith(
+        "\nError: 'skipIfExists' cannot be combined with 'sbomFile', as an existing image is not built again."
+      );
+      expect(mockSpawn).not.toHaveBeenCalled();
     });
   });
 
   describe('Error Handling', () => {
     it('should handle Git tag reading errors', async () => {
-      const options: TagAndBuildExecutorSchema = {
-        appName: 'test-app',
-        dockerRepository: 'test-repo',
-        buildTarget: 'build',
-        dockerfile: 'Dockerfile',
-        context: '.',
-        push: false,
-      };
-
       mockReadJsonFile.mockReturnValue({});
       mockPromisifiedExec.mockRejectedValue(new Error('Git command failed'));
 
-      const result = await executor(options, mockContext);
+      const result = await executor(baseOptions, mockContext);
 
       expect(result.success).toBe(false);
     });
@@ -485,22 +2729,14 @@ describe('TagAndBuild Executor', () => {
   describe('Integration', () => {
     it('should complete full workflow successfully', async () => {
       const options: TagAndBuildExecutorSchema = {
-        appName: 'test-app',
-        dockerRepository: 'test-repo',
-        buildTarget: 'build',
-        dockerfile: 'Dockerfile',
-        context: '.',
+        ...baseOptions,
         push: true,
         generateMajorMinor: true,
         additionalTags: ['latest'],
       };
 
       mockReadJsonFile.mockReturnValue({ version: '1.2.3' });
-      mockRunExecutor.mockResolvedValue(
-        (async function* () {
-          yield { success: true };
-        })()
-      );
+      buildSucceeds();
       mockPromisifiedExec.mockResolvedValue({ stdout: 'abc1234' });
 
       const result = await executor(options, mockContext);
@@ -508,7 +2744,8 @@ describe('TagAndBuild Executor', () => {
       expect(result.success).toBe(true);
       expect(mockReadJsonFile).toHaveBeenCalled();
       expect(mockRunExecutor).toHaveBeenCalled();
-      expect(mockPromisifiedExec).toHaveBeenCalledTimes(2); // git rev-parse + docker build
+      expect(mockPromisifiedExec).toHaveBeenCalledTimes(2); // git rev-parse + git remote
+      expect(mockSpawn).toHaveBeenCalledTimes(1); // docker build
     });
   });
 });
@@ -1,206 +1,1075 @@
 import { exec } from 'child_process';
+import { existsSync, mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
 import { promisify } from 'util';
-import { PromiseExecutor, readJsonFile, runExecutor } from '@nx/devkit';
+import {
+  detectPackageManager,
+  getOutputsForTargetAndConfiguration,
+  ProjectGraphProjectNode,
+  PromiseExecutor,
+  readJsonFile,
+  runExecutor,
+} from '@nx/devkit';
+import { ensureBuildxBuilder, validateBuildxOptions } from '../../utils/buildx';
+import {
+  CosignCommand,
+  cosignKeyRef,
+  cosignSignCommand,
+  signatureAnnotations,
+} from '../../utils/cosign';
+import {
+  BuildTargetRun,
+  findMissingOutputs,
+  parseBuildTargets,
+} from '../../utils/build-target';
+import { buildCacheArgs } from '../../utils/cache';
+import {
+  getCurrentBranch,
+  getPullRequestNumber,
+  getRemoteUrl,
+} from '../../utils/git';
+import { imageReferences } from '../../utils/image-name';
+import {
+  ContainerEngine,
+  EngineCommand,
+  ImageBuild,
+  selectEngine,
+} from '../../utils/engine';
+import { interpolateValues } from '../../utils/interpolate';
+import { ImageMetadata, writeImageMetadata } from '../../utils/metadata';
+import {
+  generatedDockerfilePath,
+  lockfileFor,
+  renderNodeDockerfile,
+  writeGeneratedDockerfile,
+} from '../../utils/node-dockerfile';
+import { buildOciLabels, PackageJsonMetadata } from '../../utils/oci-labels';
+import { findDockerfile, resolvePath } from '../../utils/paths';
+import { createRedactor, isSensitiveName } from '../../utils/redact';
+import {
+  createDockerConfigDir,
+  dockerConfigEnv,
+  dockerLogin,
+  isAuthError,
+  resolveCredentials,
+  ResolvedCredentials,
+  writeRegistryAuth,
+} from '../../utils/registry-auth';
+import {
+  formatCommand,
+  runCommand,
+  RunCommandResult,
+} from '../../utils/process';
+import { getReleaseTagPattern } from '../../utils/release-tag';
+import { ExistingImage, tagExistingImage } from '../../utils/retag';
+import { sbomCommand } from '../../utils/sbom';
+import {
+  createScanPlan,
+  ScanPlan,
+  scanAndPush,
+} from '../../utils/scan-and-push';
+import {
+  isPrerelease,
+  parseSemver,
+  toPrereleaseIdentifier,
+} from '../../utils/semver';
+import {
+  renderTagTemplates,
+  templatesUseBranch,
+  toDockerTag,
+} from '../../utils/tags';
+import {
+  ResolvedVersion,
+  resolveVersion,
+  VersionResolverName,
+  VersionSource,
+} from '../../utils/version';
+import {
+  isLatestRelease,
+  prereleaseChannel,
+  versionTag,
+  versionTags,
+} from '../../utils/version-tags';
 import { TagAndBuildExecutorSchema } from './schema';
 
 import path = require('path');
 
+interface TagAndBuildPlan {
+  appName: string;
+  version: string;
+  versionSource: VersionSource;
+  gitSha: string;
+  /** `null` when the build is skipped. */
+  buildTarget: string | string[] | null;
+  dockerTags: string[];
+  platforms: string[];
+  push: boolean;
+  dockerCommand: string;
+}
+
+/**
+ * Prints the resolved build plan, once for humans and once as JSON so CI
+ * tooling can pick it up from the logs.
+ */
+function printPlan(plan: TagAndBuildPlan, redact: (text: string) => string) {
+  console.log(`\n--- Dry run: nothing will be built, tagged or pushed ---`);
+  console.log(`Version: ${plan.version} (from ${plan.versionSource})`);
+  console.log(`Git SHA: ${plan.gitSha}`);
+  console.log(
+    plan.buildTarget
+      ? `Build target: ${[plan.buildTarget].flat().join(', ')} (skipped)`
+      : `Build target: none (skipBuild)`
+  );
+  console.log(`Platforms: ${plan.platforms.join(', ') || 'builder default'}`);
+  console.log(`Push: ${plan.push}`);
+  console.log(
+    `Docker tags:\n${plan.dockerTags.map((t) => `  - ${t}`).join('\n')}`
+  );
+  console.log(`Docker command:\n${redact(plan.dockerCommand)}\n`);
+  console.log(redact(JSON.stringify(plan, null, 2)));
+}
+
 const tagAndBuild: PromiseExecutor<TagAndBuildExecutorSchema> = async (
   options,
   context
 ) => {
   console.log(
-    `\n---Starting Docker Image Tag & Build executor for ${options.appName}---\n`
+    `\n---Starting Docker Image Tag & Build executor for ${
+      options.appName ?? context.projectName
+    }---\n`
   );
-  console.log(`Executor Options`, options);
+  const startedAt = Date.now();
 
   const {
-    appName,
     dockerRepository,
+    registries,
+    registryAuth,
+    dockerConfig,
+    imageName,
     buildTarget,
+    buildConfiguration,
+    buildOverrides,
+    skipBuild,
     dockerfile,
+    generateDockerfile,
     push,
     context: dockerContext,
     additionalTags,
     tagPrefix,
+    gitTagPattern,
+    version,
+    versionResolver,
+    fallbackVersionResolvers,
+    versionFile,
+    versionEnvVar,
     generateMajorMinor,
+    requireSemver,
+    prereleaseChannelTag,
+    tagLatest,
+    tags,
+    shaTag,
+    defaultBranch,
+    snapshot,
+    dryRun,
+    progress,
+    timeout,
+    metadataFile,
+    platforms,
+    builder,
+    builderDriver,
+    load,
+    cache,
+    ociLabels,
+    ociLabelOverrides,
+    buildArgs,
+    secrets,
+    labels,
+    target,
+    scan,
+    sbom,
+    sbomFile,
+    sbomFormat,
+    provenance,
+    sign,
+    skipIfExists,
   } = options;
+  const appName = options.appName ?? context.projectName;
+
+  const redactor = createRedactor();
+  secrets?.forEach((secret) => {
+    if (secret.env) {
+      redactor.add(process.env[secret.env]);
+    }
+  });
+  Object.entries(buildArgs ?? {}).forEach(([name, value]) => {
+    if (isSensitiveName(name)) {
+      redactor.add(value);
+    }
+  });
+  const redact = (text: string) => redactor.redact(text);
+  console.log(`Executor Options`, redact(JSON.stringify(options, null, 2)));
+
+  const invalidSecret = secrets?.find(
+    (secret) => !secret.id || !!secret.src === !!secret.env
+  );
+  if (invalidSecret) {
+    console.error(
+      `Error: Secret '${invalidSecret.id}' must set an 'id' and exactly one of 'src' or 'env'.`
+    );
+    return { success: false };
+  }
+
+  let credentials: ResolvedCredentials[] = [];
+  try {
+    credentials = resolveCredentials(registryAuth ?? []);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    return { success: false };
+  }
+  credentials.forEach((login) => redactor.add(login.password));
+
+  let engine: ContainerEngine;
+  try {
+    engine = selectEngine(options.engine);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    return { success: false };
+  }
+  console.log(`Using the ${engine.name} engine`);
+
+  const buildxError = validateBuildxOptions(options);
+  if (buildxError) {
+    console.error(`Error: ${buildxError}`);
+    return { success: false };
+  }
+
+  if (!appName) {
+    console.error(
+      `Error: 'appName' is not set and the executor is not running for a project.`
+    );
+    return { success: false };
+  }
   const projectConfig = context.projectsConfigurations.projects[appName];
   if (!projectConfig) {
     console.error(`Error: Project configuration for '${appName}' not found.`);
     return { success: false };
   }
   const projectRoot = projectConfig.root;
+
+  let buildRuns: BuildTargetRun[];
+  try {
+    buildRuns = parseBuildTargets(
+      buildTarget ?? 'build',
+      buildConfiguration ?? 'production'
+    );
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    return { success: false };
+  }
   const root = context.root;
+  const pathContext = { workspaceRoot: root, projectRoot };
 
-  let appVersion: string | null = null;
-  let majorMinorVersion: string | null = null;
-  let majorVersion: string | null = null;
+  const projectNode: ProjectGraphProjectNode = context.projectGraph?.nodes[
+    appName
+  ] ?? { name: appName, type: 'app', data: projectConfig };
 
-  try {
-    const packageJsonPath = path.join(projectRoot, 'package.json');
+  let finalDockerfile: string | null;
+  let generatedDockerfile: {
+    content: string;
+    outputDir: string;
+    lockfile: string;
+  } | null = null;
+  if (
+    generateDockerfile &&
+    !dockerfile &&
+    !existsSync(path.join(root, projectRoot, 'Dockerfile'))
+  ) {
+    const nodeDockerfileOptions =
+      generateDockerfile === true ? {} : generateDockerfile;
     try {
-      const packageJson = readJsonFile(packageJsonPath);
-      if (packageJson.version) {
-        appVersion = packageJson.version;
-        console.log(`Found version ${appVersion} in package.json`);
-        const [major, minor] = appVersion.split('.');
-        majorMinorVersion = `${major}.${minor}`;
-        majorVersion = major;
-      } else {
-        console.warn(
-          `Warning: Version is not set in package.json for '${appName}'. Attempting to derive from Git tags.`
+      const outputPath =
+        nodeDockerfileOptions.outputPath ??
+        getOutputsForTargetAndConfiguration(
+          { project: appName, ...buildRuns[0] },
+          buildOverrides ?? {},
+          projectNode
+        )[0];
+      if (!outputPath) {
+        throw new Error(
+          `Cannot find the build output of '${appName}'. Set 'generateDockerfile.outputPath'.`
         );
       }
-    } catch (readError) {
-      console.warn(
-        `Warning: Could not read package.json for '${appName}' at ${packageJsonPath}: ${readError}. Attempting to derive from Git tags.`
+      const packageManager = detectPackageManager(root);
+      generatedDockerfile = {
+        content: renderNodeDockerfile(
+          appName,
+          packageManager,
+          nodeDockerfileOptions
+        ),
+        outputDir: resolvePath(outputPath, pathContext, 'workspace'),
+        lockfile: lockfileFor(packageManager),
+      };
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      return { success: false };
+    }
+    finalDockerfile = generatedDockerfilePath(root, appName);
+    console.log(
+      `No Dockerfile in ${projectRoot}, generating one for a Node app at ${finalDockerfile}`
+    );
+  } else {
+    const lookup = findDockerfile(dockerfile, pathContext);
+    finalDockerfile = lookup.dockerfile;
+    if (!finalDockerfile) {
+      console.error(
+        `Error: No Dockerfile found for '${appName}'. Searched:\n${lookup.searched
+          .map((location) => `  - ${location}`)
+          .join('\n')}`
       );
+      return { success: false };
+    }
+  }
+
+  const versionOrder: VersionResolverName[] = [
+    versionResolver ?? 'package-json',
+    ...(fallbackVersionResolvers ?? ['git-tag']),
+  ];
+  const releaseTagPattern = getReleaseTagPattern(
+    appName,
+    { gitTagPattern, tagPrefix },
+    projectConfig,
+    context.nxJsonConfiguration
+  );
+  let resolvedVersion: ResolvedVersion | null = null;
+  if (snapshot === 'always') {
+    console.log('Building a snapshot, skipping version resolution');
+  } else if (version) {
+    console.log(`Using version ${version} from the 'version' option`);
+    resolvedVersion = { version, source: 'option' };
+  } else {
+    try {
+      resolvedVersion = await resolveVersion(versionOrder, {
+        appName,
+        projectRoot,
+        workspaceRoot: root,
+        gitTagPattern: releaseTagPattern,
+        versionFile,
+        versionEnvVar,
+      });
+    } catch (error) {
+      console.error(`\nError resolving the version for '${appName}': ${error}`);
+      return { success: false };
     }
+  }
+
+  if (!resolvedVersion && (snapshot ?? 'off') === 'off') {
+    console.error(
+      `\nError: Could not determine version for '${appName}' using ${versionOrder.join(
+        ', '
+      )}. Please ensure your project has a version set in package.json or a corresponding Git tag exists, or enable 'snapshot' builds.`
+    );
+    return { success: false };
+  }
+
+  let gitFullSha: string;
+  let gitSha: string;
+  try {
+    const { stdout: gitShaOutput } = await promisify(exec)(
+      'git rev-parse HEAD'
+    );
+    gitFullSha = gitShaOutput.trim();
+    gitSha = gitFullSha.substring(0, 7);
   } catch (error) {
-    console.warn(
-      `Warning: General error while trying to read package.json for '${appName}': ${error}. Attempting to derive from Git tags.`
+    console.error(
+      `\nError reading the Git commit SHA for '${appName}': ${error}. Ensure Git is available.`
     );
+    return { success: false };
   }
 
-  if (!appVersion) {
-    console.log('Attempting to derive version from Git tags...');
+  const isSnapshot = !resolvedVersion;
+  let branch: string | null = null;
+  if (isSnapshot || cache?.perBranch || (tags && templatesUseBranch(tags))) {
     try {
-      const { stdout: gitTagsOutput } = await promisify(exec)(
-        `git tag --points-at HEAD`
-      );
-      const tags = gitTagsOutput.trim().split('\n').filter(Boolean);
+      branch = await getCurrentBranch();
+    } catch (error) {
+      console.warn(`Warning: Could not determine the current branch: ${error}`);
+    }
+  }
 
-      const effectiveTagPrefix = tagPrefix || 'v';
-      const targetTagPattern = new RegExp(
-        `^${appName}/${effectiveTagPrefix}(.*)$`
+  const pullRequest = isSnapshot ? getPullRequestNumber() : null;
+  if (isSnapshot) {
+    if (!pullRequest && !branch) {
+      console.error(
+        `\nError: Cannot build a snapshot of '${appName}' without a branch or pull request. Check out a branch or set one of the CI branch variables.`
       );
+      return { success: false };
+    }
+    const ref = pullRequest
+      ? `pr-${pullRequest}`
+      : toPrereleaseIdentifier(branch);
+    resolvedVersion = {
+      version: `0.0.0-${ref}.${toPrereleaseIdentifier(gitSha)}`,
+      source: 'snapshot',
+    };
+  }
 
-      const relevantTags = tags.find((tag) => targetTagPattern.test(tag));
+  const { source: versionSource } = resolvedVersion;
+  const semver = parseSemver(resolvedVersion.version);
+  if (!semver && requireSemver !== false) {
+    console.error(
+      `\nError: Version '${resolvedVersion.version}' of '${appName}' (from ${versionSource}) is not a valid SemVer version like 1.2.3 or 1.2.3-beta.1. Set 'requireSemver' to false to use it as-is.`
+    );
+    return { success: false };
+  }
+  const appVersion = semver ? semver.version : resolvedVersion.version;
+  console.log(`Resolved version ${appVersion} (from ${versionSource})`);
 
-      let match = null;
-      if (relevantTags) {
-        match = relevantTags.match(targetTagPattern);
-        appVersion = match && match[1] ? match[1] : null;
-        if (appVersion) {
-          console.log(`Extracted version ${appVersion} from Git tag`);
-          const [major, minor] = appVersion.split('.');
-          majorMinorVersion = `${major}.${minor}`;
-          majorVersion = major;
-        }
+  const shouldTagLatest =
+    !!tagLatest && (await isLatestRelease(appName, semver, releaseTagPattern));
 
-        if (!appVersion) {
-          console.error(
-            `Error: Could not find Git tag for ${appName} matching pattern ${targetTagPattern.toString()}`
-          );
-          console.error(
-            'Please ensure your project has been released and a corresponding Git tag exists (e.g., frontend/v1.2.3).'
-          );
-          return {
-            success: false,
-          };
-        }
-      }
+  const imageTags: string[] = [];
 
-      if (!relevantTags) {
-        console.warn(`Warning: No relevant Git tags found for ${appName}`);
-      }
+  if (tags) {
+    try {
+      imageTags.push(
+        ...renderTagTemplates(tags, {
+          version: versionTag(semver, appVersion),
+          major: semver?.major,
+          minor: semver?.minor,
+          patch: semver?.patch,
+          channel: prereleaseChannel(semver),
+          prerelease: !!semver && isPrerelease(semver),
+          sha: gitFullSha,
+          branch,
+          defaultBranch: defaultBranch ?? 'main',
+          date: new Date(),
+        })
+      );
     } catch (error) {
+      console.error(`\nError: ${(error as Error).message}`);
+      return { success: false };
+    }
+  } else {
+    imageTags.push(
+      ...versionTags(semver, appVersion, {
+        generateMajorMinor,
+        prereleaseChannelTag: prereleaseChannelTag && !isSnapshot,
+      })
+    );
+  }
+
+  if (isSnapshot && !tags) {
+    imageTags.push(
+      pullRequest ? `pr-${pullRequest}` : toDockerTag(`branch-${branch}`)
+    );
+  }
+
+  if (shouldTagLatest) {
+    imageTags.push('latest');
+  }
+  if (isSnapshot && additionalTags?.length) {
+    console.log(
+      `Skipping additional tags for snapshot build: ${additionalTags.join(
+        ', '
+      )}`
+    );
+  } else if (tags && additionalTags?.length) {
+    console.warn(
+      `Warning: Ignoring additionalTags (${additionalTags.join(
+        ', '
+      )}) because 'tags' is set. Add them to 'tags' instead.`
+    );
+  } else if (additionalTags?.length) {
+    imageTags.push(...additionalTags);
+  }
+  if (shaTag !== false) {
+    imageTags.push(`sha-${gitSha}`);
+  }
+
+  // The tag that shows the image was already pushed: the commit, or the Nx
+  // hash of the build inputs, which is pushed as a tag of its own.
+  const skipMode = skipIfExists === true ? 'sha' : skipIfExists || null;
+  let existingImageTag: string | null = null;
+  if (skipMode === 'hash') {
+    const task = Object.values(context.taskGraph?.tasks ?? {}).find(
+      ({ target }) =>
+        target.project === context.projectName &&
+        target.target === context.targetName
+    );
+    if (!task?.hash) {
       console.error(
-        `\nError reading Git tags for '${appName}': ${error}. Ensure Git is available and the repository has tags.`
+        `\nError: 'skipIfExists: hash' needs the Nx task hash of '${appName}', which is only known when the target runs through Nx.`
       );
       return { success: false };
     }
+    existingImageTag = `inputs-${task.hash}`;
+    imageTags.push(existingImageTag);
+  } else if (skipMode === 'sha') {
+    if (shaTag === false) {
+      console.error(
+        `\nError: 'skipIfExists' looks for the sha- tag, so 'shaTag' must not be false.`
+      );
+      return { success: false };
+    }
+    existingImageTag = `sha-${gitSha}`;
   }
-
-  if (!appVersion) {
+  // An image found in the registry is neither signed nor scanned again, and
+  // with 'hash' it may have been built for another version.
+  if (existingImageTag && push && (sign || sbomFile)) {
     console.error(
-      `\nError: Could not determine version for '${appName}'. Please ensure your project has a version set in package.json or a corresponding Git tag exists.`
+      `\nError: 'skipIfExists' cannot be combined with '${
+        sign ? 'sign' : 'sbomFile'
+      }', as an existing image is not built again.`
     );
     return { success: false };
   }
 
-  console.log(`\nRunning build target '${buildTarget}' for '${appName}'...`);
-  const buildResult = await runExecutor(
-    {
-      project: appName,
-      target: buildTarget,
-      configuration: 'production',
-    },
-    {},
-    context
+  let imageNames: string[];
+  try {
+    imageNames = imageReferences(
+      [dockerRepository, ...(registries ?? [])],
+      imageName,
+      appName
+    );
+  } catch (error) {
+    console.error(`\nError: ${(error as Error).message}`);
+    return { success: false };
+  }
+  const baseImageName = imageNames[0];
+  const dockerTags = imageNames.flatMap((image) =>
+    [...new Set(imageTags)].map((tag) => `${image}:${tag}`)
   );
 
-  for await (const result of buildResult) {
-    if (result.success) {
-      console.log(
-        `Build target '${buildTarget}' for '${appName}' completed successfully`
+  console.log(`\nGenerated Docker Tags: ${dockerTags.join(', ')}`);
+
+  // A generated Dockerfile expects the build output as its context.
+  const finalContext =
+    !dockerContext && generatedDockerfile
+      ? generatedDockerfile.outputDir
+      : resolvePath(dockerContext ?? '.', pathContext);
+
+  let userBuildArgs: Record<string, string>;
+  let userLabels: Record<string, string>;
+  try {
+    const variables = { version: appVersion, sha: gitSha, appName };
+    userBuildArgs = interpolateValues(buildArgs, variables);
+    userLabels = interpolateValues(labels, variables);
+  } catch (error) {
+    console.error(`\nError: ${redact((error as Error).message)}`);
+    return { success: false };
+  }
+
+  let imageLabels = userLabels;
+  if (ociLabels !== false) {
+    let packageJson: PackageJsonMetadata | null = null;
+    try {
+      packageJson = readJsonFile(path.join(projectRoot, 'package.json'));
+    } catch {
+      // Labels taken from package.json are optional.
+    }
+    const ociLabelValues = buildOciLabels(
+      {
+        projectName: appName,
+        version: appVersion,
+        revision: gitFullSha,
+        created: new Date(),
+        source: packageJson?.repository ? null : await getRemoteUrl(),
+        packageJson,
+      },
+      ociLabelOverrides
+    );
+    imageLabels = { ...ociLabelValues, ...userLabels };
+  }
+
+  const imageBuildArgs: Record<string, string> = {
+    APP_VERSION: appVersion,
+    BUILD_SHA: gitSha,
+  };
+  // Build args are part of the max provenance, so it records where the image
+  // came from.
+  if (provenance === true || provenance === 'max') {
+    imageBuildArgs.NX_PROJECT_NAME = context.projectName ?? appName;
+    imageBuildArgs.NX_BUILD_TARGET = skipBuild
+      ? ''
+      : buildRuns
+          .map(({ target, configuration }) =>
+            configuration ? `${target}:${configuration}` : target
+          )
+          .join(',');
+    imageBuildArgs.APP_VERSION_SOURCE = versionSource;
+  } else if (provenance === 'min') {
+    console.warn(
+      `Warning: The minimal provenance of '${appName}' has no build args, so it does not record the Nx project, build target and version source. Use 'provenance: max' to record them.`
+    );
+  }
+  Object.entries(userBuildArgs).forEach(([name, value]) => {
+    if (isSensitiveName(name)) {
+      console.warn(
+        `Warning: Build arg '${name}' looks sensitive. Build args end up in the image history; prefer 'secrets'.`
       );
-    } else {
-      console.error(`Build target '${buildTarget}' for '${appName}' failed`);
-      return { success: false };
+      redactor.add(value);
     }
+    imageBuildArgs[name] = value;
+  });
+
+  const { cacheFrom, cacheTo } = cache
+    ? buildCacheArgs(cache, {
+        imageName: baseImageName,
+        appName,
+        workspaceRoot: root,
+        branch,
+      })
+    : { cacheFrom: [], cacheTo: null };
+
+  const imageBuild: ImageBuild = {
+    dockerfile: finalDockerfile,
+    context: finalContext,
+    tags: dockerTags,
+    buildArgs: imageBuildArgs,
+    labels: imageLabels,
+    secrets: (secrets ?? []).map((secret) =>
+      secret.src
+        ? {
+            id: secret.id,
+            src: resolvePath(secret.src, pathContext, 'workspace'),
+          }
+        : secret
+    ),
+    target,
+    platforms: platforms ?? [],
+    push: !!push,
+    load: !!load,
+    builder,
+    progress,
+    cacheFrom,
+    cacheTo,
+    scan: !!scan,
+    sbom: !!sbom,
+    provenance: provenance === true ? 'max' : provenance,
+  };
+
+  const scanOptions = scan === true ? {} : scan || null;
+  let scanPlan: ScanPlan | null = null;
+  if (scanOptions) {
+    const reportDir = scanOptions.reportDir
+      ? resolvePath(scanOptions.reportDir, pathContext, 'workspace')
+      : path.join(root, 'dist', projectRoot, 'scan');
+    scanPlan = createScanPlan(imageBuild, dockerTags[0], engine, {
+      ...scanOptions,
+      ignoreFile:
+        scanOptions.ignoreFile &&
+        resolvePath(scanOptions.ignoreFile, pathContext, 'workspace'),
+      reportDir,
+    });
   }
 
-  const dockerTags: string[] = [];
-  const baseImageName = `${dockerRepository}/${appName}`;
+  const unsupported = engine.unsupportedOptions(imageBuild);
+  if (unsupported.length > 0) {
+    console.error(
+      `\nError: The ${engine.name} engine does not support ${unsupported.join(
+        ', '
+      )}. Remove these options or use the docker engine.`
+    );
+    return { success: false };
+  }
+
+  // syft reads pushed images from the registry and others from the local
+  // image store, which a buildx build without 'load' leaves empty.
+  if (
+    sbomFile &&
+    !push &&
+    (engine.name === 'kaniko' || (engine.name === 'docker' && !load))
+  ) {
+    console.error(
+      `\nError: 'sbomFile' needs an image to read. Set 'push' or 'load', or attach the SBOM with 'sbom' instead.`
+    );
+    return { success: false };
+  }
+  const sbomPath = sbomFile && resolvePath(sbomFile, pathContext, 'workspace');
+  const sbomFileCommand = (image: string) =>
+    sbomCommand(image, engine.name, !!push, sbomFormat ?? 'spdx', sbomPath);
 
-  dockerTags.push(`${baseImageName}:${appVersion}`);
-  if (generateMajorMinor) {
-    if (majorMinorVersion && majorMinorVersion !== appVersion) {
-      dockerTags.push(`${baseImageName}:${majorMinorVersion}`);
+  // Tags can be moved, so the signature is made for the pushed digest.
+  let signCommands: ((digest: string) => CosignCommand)[] = [];
+  if (sign) {
+    if (!push) {
+      console.error(
+        `\nError: 'sign' needs 'push', as cosign signs the digest in the registry.`
+      );
+      return { success: false };
     }
-    if (
-      majorVersion &&
-      majorVersion !== appVersion &&
-      majorVersion !== majorMinorVersion
-    ) {
-      dockerTags.push(`${baseImageName}:${majorVersion}`);
+    let keyRef: string;
+    try {
+      keyRef = cosignKeyRef(sign, (file) =>
+        resolvePath(file, pathContext, 'workspace')
+      );
+    } catch (error) {
+      console.error(`\nError: ${(error as Error).message}`);
+      return { success: false };
     }
+    const annotations = signatureAnnotations(
+      appName,
+      appVersion,
+      sign.annotations
+    );
+    signCommands = imageNames.map(
+      (image) => (digest: string) =>
+        cosignSignCommand(`${image}@${digest}`, keyRef, annotations)
+    );
   }
 
-  if (additionalTags && additionalTags.length > 0) {
-    additionalTags.forEach((tag) => dockerTags.push(`${baseImageName}:${tag}`));
+  if (dryRun) {
+    if (generatedDockerfile) {
+      console.log(`Generated Dockerfile:\n${generatedDockerfile.content}`);
+    }
+    printPlan(
+      {
+        appName,
+        version: appVersion,
+        versionSource,
+        gitSha,
+        buildTarget: skipBuild ? null : buildTarget,
+        dockerTags,
+        platforms: platforms ?? [],
+        push: !!push,
+        dockerCommand: (scanPlan
+          ? [
+              ...engine.commands(scanPlan.build),
+              ...scanPlan.commands,
+              ...(push ? engine.pushCommands(imageBuild) : []),
+            ]
+          : engine.commands(imageBuild)
+        )
+          .concat(signCommands.map((command) => command('<digest>')))
+          .concat(sbomPath ? [sbomFileCommand(dockerTags[0])] : [])
+          .map(({ command, args }) => formatCommand(command, args))
+          .join('\n'),
+      },
+      redact
+    );
+    return { success: true };
   }
 
-  const { stdout: gitShaOutput } = await promisify(exec)('git rev-parse HEAD');
-  const gitSha = gitShaOutput.trim().substring(0, 7);
-  dockerTags.push(`${baseImageName}:sha-${gitSha}`);
+  /** Reports the image and writes the metadata file. */
+  const complete = (
+    digest: string | null,
+    buildTargetMs: number,
+    imageBuildStartedAt: number,
+    cached: boolean
+  ) => {
+    const finishedAt = Date.now();
+    const metadata: ImageMetadata = {
+      appName,
+      version: appVersion,
+      versionSource,
+      imageName: baseImageName,
+      tags: dockerTags,
+      digest,
+      platforms: platforms ?? [],
+      pushed: !!push,
+      cached,
+      gitSha: gitFullSha,
+      builtAt: new Date(finishedAt).toISOString(),
+      timings: {
+        buildTargetMs,
+        imageBuildMs: finishedAt - imageBuildStartedAt,
+        totalMs: finishedAt - startedAt,
+      },
+      ...(sbomPath && !cached && { sbomFile: sbomPath }),
+    };
+    if (digest) {
+      console.log(`Image digest: ${digest}`);
+    }
+    if (metadataFile) {
+      const metadataPath = resolvePath(metadataFile, pathContext, 'workspace');
+      try {
+        writeImageMetadata(metadataPath, metadata);
+        console.log(`Wrote image metadata to ${metadataPath}`);
+      } catch (error) {
+        console.error(
+          `\nError: Could not write image metadata to ${metadataPath}: ${error}`
+        );
+        return { success: false };
+      }
+    }
+    return { success: true, ...metadata };
+  };
 
-  console.log(`\nGenerated Docker Tags: ${dockerTags.join(', ')}`);
+  if (existingImageTag && push) {
+    const source = `${baseImageName}:${existingImageTag}`;
+    let configDir: string | null = null;
+    let existingImage: ExistingImage | null;
+    try {
+      if (credentials.length > 0 || dockerConfig) {
+        configDir = createDockerConfigDir(
+          dockerConfig && resolvePath(dockerConfig, pathContext, 'workspace'),
+          credentials.map(({ registry }) => registry)
+        );
+        writeRegistryAuth(credentials, configDir);
+      }
+      existingImage = await tagExistingImage(
+        source,
+        dockerTags,
+        engine.name === 'docker' ? 'imagetools' : 'crane',
+        {
+          env: configDir ? dockerConfigEnv(configDir) : process.env,
+          transform: redact,
+        }
+      );
+    } catch (error) {
+      console.error(
+        `\nError: Could not reuse ${source} from the registry: ${redact(
+          (error as Error).message
+        )}`
+      );
+      return { success: false };
+    } finally {
+      if (configDir) {
+        rmSync(configDir, { recursive: true, force: true });
+      }
+    }
+    if (existingImage) {
+      console.log(
+        `\n--- ${source} already exists, skipped building '${appName}' (cached) and added ${existingImage.addedTags.length} missing tag(s) ---`
+      );
+      return complete(existingImage.digest, 0, Date.now(), true);
+    }
+    console.log(`\n${source} is not in the registry yet, building it`);
+  }
 
-  let dockerCommand = `docker buildx build`;
-  if (push) {
-    dockerCommand += ` --push`;
+  if (builder) {
+    try {
+      await ensureBuildxBuilder(builder, builderDriver);
+    } catch (error) {
+      console.error(
+        `\nError: Could not create buildx builder '${builder}': ${error}`
+      );
+      return { success: false };
+    }
   }
 
-  dockerTags.forEach((tag) => {
-    dockerCommand += ` -t "${tag}"`;
-  });
+  const buildTargetStartedAt = Date.now();
+  if (skipBuild) {
+    console.log(`\nSkipping the build target of '${appName}' (skipBuild)`);
+  }
+  for (const run of skipBuild ? [] : buildRuns) {
+    console.log(`\nRunning build target '${run.target}' for '${appName}'...`);
+    const buildResult = await runExecutor(
+      { project: appName, ...run },
+      buildOverrides ?? {},
+      context
+    );
 
-  const finalDockerfile = dockerfile
-    ? path.join(root, dockerfile)
-    : path.join(root, 'Dockerfile');
-  const finalContext = dockerContext ? path.join(root, dockerContext) : root;
+    for await (const result of buildResult) {
+      if (result.success) {
+        console.log(
+          `Build target '${run.target}' for '${appName}' completed successfully`
+        );
+      } else {
+        console.error(`Build target '${run.target}' for '${appName}' failed`);
+        return { success: false };
+      }
+    }
 
-  dockerCommand += ` -f "${finalDockerfile}" "${finalContext}"`;
-  dockerCommand += ` --build-arg APP_VERSION="${appVersion}"`;
-  dockerCommand += ` --build-arg BUILD_SHA="${gitSha}"`;
+    const missingOutputs = findMissingOutputs(
+      projectNode,
+      run,
+      buildOverrides ?? {},
+      root
+    );
+    if (missingOutputs.length > 0) {
+      console.error(
+        `\nError: Build target '${
+          run.target
+        }' of '${appName}' succeeded, but these declared outputs are missing or empty:\n${missingOutputs
+          .map((output) => `  - ${output}`)
+          .join(
+            '\n'
+          )}\nCheck the 'outputs' of the target, or that the build writes where they point.`
+      );
+      return { success: false };
+    }
+  }
 
-  console.log(`\nExecuting Docker build command:\n${dockerCommand}\n`);
-  try {
-    const { stderr } = await promisify(exec)(dockerCommand);
-    if (stderr) {
-      console.error(stderr);
+  const buildTargetMs = Date.now() - buildTargetStartedAt;
+
+  if (generatedDockerfile) {
+    const { outputDir, lockfile, content } = generatedDockerfile;
+    const missingFiles = ['package.json', lockfile].filter(
+      (file) => !existsSync(path.join(outputDir, file))
+    );
+    if (missingFiles.length > 0) {
+      console.error(
+        `\nError: Cannot build the generated Dockerfile of '${appName}': ${missingFiles.join(
+          ' and '
+        )} not found in ${outputDir}. Let the build write a pruned package.json and lockfile, e.g. with 'generatePackageJson'.`
+      );
+      return { success: false };
     }
+    writeGeneratedDockerfile(finalDockerfile, content);
+  }
+
+  let dockerConfigDir: string | null = null;
+  if (credentials.length > 0 || dockerConfig) {
+    try {
+      dockerConfigDir = createDockerConfigDir(
+        dockerConfig && resolvePath(dockerConfig, pathContext, 'workspace'),
+        credentials.map(({ registry }) => registry)
+      );
+      if (engine.cliLogin) {
+        for (const login of credentials) {
+          console.log(
+            `Logging in to ${login.registry} as ${login.username}...`
+          );
+          await dockerLogin(login, dockerConfigDir, engine.command);
+        }
+      } else {
+        writeRegistryAuth(credentials, dockerConfigDir);
+      }
+    } catch (error) {
+      console.error(
+        `\nError: Registry login for '${appName}' failed: ${redact(
+          (error as Error).message
+        )}`
+      );
+      if (dockerConfigDir) {
+        rmSync(dockerConfigDir, { recursive: true, force: true });
+      }
+      return { success: false };
+    }
+  }
+
+  const digestDir = mkdtempSync(path.join(tmpdir(), 'tag-and-build-'));
+  const digestFile = path.join(digestDir, 'digest');
+  const deadline = timeout ? Date.now() + timeout * 1000 : null;
+
+  /** Runs one command of the build, reporting why it failed. */
+  const runStep = async (
+    name: string,
+    step: string,
+    { command, args, env }: { command: string; args: string[]; env?: object }
+  ): Promise<RunCommandResult | null> => {
     console.log(
-      `\n--- Successfully built and tagged/pushed Docker image(s) for '${appName}' ---`
+      `\nExecuting ${name} ${step} command:\n${redact(
+        formatCommand(command, args)
+      )}\n`
     );
-    return { success: true };
-  } catch (error) {
-    console.error(`\nError: Docker build failed for '${appName}'.`);
-    return { success: false };
+    let result: RunCommandResult;
+    try {
+      result = await runCommand(command, args, {
+        env: {
+          ...(dockerConfigDir ? dockerConfigEnv(dockerConfigDir) : process.env),
+          ...env,
+        },
+        timeoutMs: deadline ? Math.max(deadline - Date.now(), 1) : undefined,
+        quiet: progress === 'quiet',
+        transform: redact,
+      });
+    } catch (error) {
+      console.error(
+        `\nError: Could not run ${name} for '${appName}': ${error}. Ensure ${name} is installed and on the PATH.`
+      );
+      return null;
+    }
+    if (result.timedOut) {
+      console.error(
+        `\nError: ${name} ${step} for '${appName}' timed out after ${timeout}s and was stopped.`
+      );
+      return null;
+    }
+    if (result.exitCode !== 0) {
+      const lastOutput = result.lastLines.join('\n');
+      if (
+        push &&
+        (step === 'build' || step === 'push') &&
+        isAuthError(lastOutput)
+      ) {
+        console.error(
+          `\nError: The registry rejected the push of '${appName}' because ${name} is not authenticated. Log in before running the executor, or configure 'registryAuth' or 'dockerConfig'.`
+        );
+      } else {
+        console.error(
+          `\nError: ${name} ${step} failed for '${appName}' with ${
+            result.signal
+              ? `signal ${result.signal}`
+              : `exit code ${result.exitCode}`
+          }. Last output:\n${lastOutput}`
+        );
+      }
+      return null;
+    }
+    return result;
+  };
+  let outputDigest: string | null = null;
+  const runEngine = async (commands: EngineCommand[]) => {
+    for (const command of commands) {
+      const result = await runStep(engine.displayName, command.step, command);
+      if (!result) {
+        return false;
+      }
+      outputDigest = command.outputDigest?.(result.lastLines) ?? outputDigest;
+    }
+    return true;
+  };
+
+  const imageBuildStartedAt = Date.now();
+  let digest: string | null = null;
+  try {
+    if (
+      !(await (scanPlan
+        ? scanAndPush(
+            engine,
+            scanPlan,
+            imageBuild,
+            digestFile,
+            {
+              engine: runEngine,
+              scan: async (command) =>
+                !!(await runStep(scanPlan.displayName, 'scan', command)),
+            },
+            appName
+          )
+        : runEngine(engine.commands(imageBuild, digestFile))))
+    ) {
+      return { success: false };
+    }
+    try {
+      digest = outputDigest ?? engine.readDigest(digestFile);
+    } catch (error) {
+      console.warn(`Warning: Could not read the image digest: ${error}`);
+    }
+    if (signCommands.length > 0 && !digest) {
+      console.error(
+        `\nError: Could not sign the image of '${appName}', as ${engine.displayName} did not report its digest.`
+      );
+      return { success: false };
+    }
+    for (const signCommand of signCommands) {
+      if (!(await runStep('cosign', 'sign', signCommand(digest)))) {
+        return { success: false };
+      }
+    }
+    if (sbomPath) {
+      mkdirSync(path.dirname(sbomPath), { recursive: true });
+      const command = sbomFileCommand(
+        push && digest ? `${baseImageName}@${digest}` : dockerTags[0]
+      );
+      if (!(await runStep('Syft', 'sbom', command))) {
+        return { success: false };
+      }
+      console.log(`Wrote the SBOM to ${sbomPath}`);
+    }
+  } finally {
+    rmSync(digestDir, { recursive: true, force: true });
+    if (dockerConfigDir) {
+      rmSync(dockerConfigDir, { recursive: true, force: true });
+    }
   }
+  console.log(
+    `\n--- Successfully built and tagged/pushed Docker image(s) for '${appName}' ---`
+  );
+
+  return complete(digest, buildTargetMs, imageBuildStartedAt, false);
 };
 
 export default tagAndBuild;
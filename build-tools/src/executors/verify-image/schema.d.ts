@@ -0,0 +1,7 @@
+export interface VerifyImageExecutorSchema {
+  image?: string;
+  metadataFile?: string;
+  key?: string;
+  keyEnv?: string;
+  annotations?: Record<string, string>;
+}
@@ -0,0 +1,173 @@
+import { ExecutorContext } from '@nx/devkit';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { spawn } from 'child_process';
+
+import { fakeProcess } from '../../testing/fake-process';
+import executor from './verify-image';
+
+jest.mock('child_process', () => ({
+  exec: jest.fn(),
+  spawn: jest.fn(),
+}));
+
+const mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
+
+describe('VerifyImage Executor', () => {
+  let workspaceRoot: string;
+  let mockContext: ExecutorContext;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+    errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    mockSpawn.mockImplementation(() => fakeProcess());
+
+    workspaceRoot = mkdtempSync(join(tmpdir(), 'verify-image-'));
+    mkdirSync(join(workspaceRoot, 'dist/apps/web'), { recursive: true });
+    writeFileSync(
+      join(workspaceRoot, 'dist/apps/web/image-metadata.json'),
+      JSON.stringify({
+        appName: 'web',
+        version: '1.2.3',
+        imageName: 'ghcr.io/org/web',
+        digest: 'sha256:0123abcd',
+        pushed: true,
+      })
+    );
+
+    mockContext = {
+      root: workspaceRoot,
+      cwd: workspaceRoot,
+      isVerbose: false,
+      projectName: 'web',
+      projectGraph: { nodes: {}, dependencies: {} },
+      projectsConfigurations: {
+        projects: { web: { root: 'apps/web' } },
+        version: 2,
+      },
+      nxJsonConfiguration: {},
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('should verify the digest and annotations from the build metadata', async () => {
+    const result = await executor(
+      {
+        metadataFile: 'dist/apps/web/image-metadata.json',
+        key: 'cosign.pub',
+        annotations: { team: 'web' },
+      },
+      mockContext
+    );
+
+    expect(result).toEqual({
+      success: true,
+      image: 'ghcr.io/org/web@sha256:0123abcd',
+    });
+    expect(mockSpawn).toHaveBeenCalledWith(
+      'cosign',
+      [
+        'verify',
+        '--key',
+        join(workspaceRoot, 'cosign.pub'),
+        '-a',
+        'nx.project=web',
+        '-a',
+        'org.opencontainers.image.version=1.2.3',
+        '-a',
+        'team=web',
+        'ghcr.io/org/web@sha256:0123abcd',
+      ],
+      expect.anything()
+    );
+  });
+
+  it('should pass keys from the environment by reference', async () => {
+    process.env.COSIGN_PUBLIC_KEY = '-----BEGIN PUBLIC KEY-----';
+    try {
+      await executor(
+        { image: 'ghcr.io/org/web:1.2.3', keyEnv: 'COSIGN_PUBLIC_KEY' },
+        mockContext
+      );
+    } finally {
+      delete process.env.COSIGN_PUBLIC_KEY;
+    }
+
+    expect(mockSpawn.mock.calls[0][1]).toEqual([
+      'verify',
+      '--key',
+      'env://COSIGN_PUBLIC_KEY',
+      'ghcr.io/org/web:1.2.3',
+    ]);
+    expect(console.warn).toHaveBeenCalledWith(
+      'Warning: Verifying the tag of ghcr.io/org/web:1.2.3, which can be moved after the check. Prefer a digest reference.'
+    );
+  });
+
+  it('should fail when the signature does not verify', async () => {
+    mockSpawn.mockImplementation(() =>
+      fakeProcess({ exitCode: 1, output: 'Error: no matching signatures\n' })
+    );
+
+    const result = await executor(
+      { image: 'ghcr.io/org/web@sha256:0123abcd', key: 'cosign.pub' },
+      mockContext
+    );
+
+    expect(result.success).toBe(false);
+    expect(errorSpy).toHaveBeenCalledWith(
+      '\nError: The signature of ghcr.io/org/web@sha256:0123abcd could not be verified. Last output:\nError: no matching signatures'
+    );
+  });
+
+  it('should reject metadata of images that were not pushed', async () => {
+    writeFileSync(
+      join(workspaceRoot, 'dist/apps/web/image-metadata.json'),
+      JSON.stringify({
+        appName: 'web',
+        version: '1.2.3',
+        imageName: 'ghcr.io/org/web',
+        digest: 'sha256:0123abcd',
+        pushed: false,
+        cached: false,
+      })
+    );
+
+    const result = await executor(
+      {
+        metadataFile: 'dist/apps/web/image-metadata.json',
+        key: 'cosign.pub',
+      },
+      mockContext
+    );
+
+    expect(result.success).toBe(false);
+    expect(errorSpy).toHaveBeenCalledWith(
+      `Error: The image metadata in ${join(
+        workspaceRoot,
+        'dist/apps/web/image-metadata.json'
+      )} is of an image that was not pushed. Only pushed images can be verified.`
+    );
+    expect(mockSpawn).not.toHaveBeenCalled();
+  });
+
+  it('should require exactly one key source', async () => {
+    const result = await executor(
+      { image: 'ghcr.io/org/web@sha256:0123abcd' },
+      mockContext
+    );
+
+    expect(result.success).toBe(false);
+    expect(errorSpy).toHaveBeenCalledWith(
+      "Error: Set exactly one of 'key' and 'keyEnv' for cosign."
+    );
+  });
+});
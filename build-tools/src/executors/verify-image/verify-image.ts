@@ -0,0 +1,104 @@
+import { PromiseExecutor, readJsonFile } from '@nx/devkit';
+import {
+  cosignKeyRef,
+  cosignVerifyCommand,
+  signatureAnnotations,
+} from '../../utils/cosign';
+import { ImageMetadata } from '../../utils/metadata';
+import { resolvePath } from '../../utils/paths';
+import { formatCommand, runCommand } from '../../utils/process';
+import { VerifyImageExecutorSchema } from './schema';
+
+const verifyImage: PromiseExecutor<VerifyImageExecutorSchema> = async (
+  options,
+  context
+) => {
+  const { image, metadataFile, key, keyEnv, annotations } = options;
+  const pathContext = {
+    workspaceRoot: context.root,
+    projectRoot:
+      context.projectsConfigurations.projects[context.projectName]?.root ?? '',
+  };
+
+  if (!!image === !!metadataFile) {
+    console.error(`Error: Set exactly one of 'image' and 'metadataFile'.`);
+    return { success: false };
+  }
+
+  let reference = image;
+  let expectedAnnotations: Record<string, string> = {};
+  if (metadataFile) {
+    const metadataPath = resolvePath(metadataFile, pathContext, 'workspace');
+    let metadata: ImageMetadata;
+    try {
+      metadata = readJsonFile<ImageMetadata>(metadataPath);
+    } catch (error) {
+      console.error(
+        `Error: Could not read the image metadata from ${metadataPath}: ${error}`
+      );
+      return { success: false };
+    }
+    // buildx reports a digest for loaded and local builds as well, which
+    // were never signed in the registry.
+    if (!metadata.pushed && !metadata.cached) {
+      console.error(
+        `Error: The image metadata in ${metadataPath} is of an image that was not pushed. Only pushed images can be verified.`
+      );
+      return { success: false };
+    }
+    if (!metadata.digest) {
+      console.error(
+        `Error: The image metadata in ${metadataPath} has no digest to verify.`
+      );
+      return { success: false };
+    }
+    reference = `${metadata.imageName}@${metadata.digest}`;
+    expectedAnnotations = signatureAnnotations(
+      metadata.appName,
+      metadata.version
+    );
+  } else if (!image.includes('@')) {
+    console.warn(
+      `Warning: Verifying the tag of ${image}, which can be moved after the check. Prefer a digest reference.`
+    );
+  }
+
+  let keyRef: string;
+  try {
+    keyRef = cosignKeyRef({ key, keyEnv }, (file) =>
+      resolvePath(file, pathContext, 'workspace')
+    );
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    return { success: false };
+  }
+
+  const { command, args } = cosignVerifyCommand(reference, keyRef, {
+    ...expectedAnnotations,
+    ...annotations,
+  });
+  console.log(
+    `\nExecuting cosign verify command:\n${formatCommand(command, args)}\n`
+  );
+  try {
+    const result = await runCommand(command, args);
+    if (result.exitCode !== 0) {
+      console.error(
+        `\nError: The signature of ${reference} could not be verified. Last output:\n${result.lastLines.join(
+          '\n'
+        )}`
+      );
+      return { success: false };
+    }
+  } catch (error) {
+    console.error(
+      `\nError: Could not run cosign: ${error}. Ensure cosign is installed and on the PATH.`
+    );
+    return { success: false };
+  }
+
+  console.log(`Verified the signature of ${reference}`);
+  return { success: true, image: reference };
+};
+
+export default verifyImage;
@@ -0,0 +1,180 @@
+import {
+  addProjectConfiguration,
+  ExecutorContext,
+  readNxJson,
+  readProjectConfiguration,
+  runExecutor,
+  Tree,
+  updateNxJson,
+  updateProjectConfiguration,
+} from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+
+import buildAffectedImages from '../../executors/build-affected-images/build-affected-images';
+import { configurationGenerator } from './configuration';
+
+jest.mock('@nx/devkit', () => ({
+  ...jest.requireActual('@nx/devkit'),
+  runExecutor: jest.fn(),
+}));
+
+const mockRunExecutor = runExecutor as jest.MockedFunction<typeof runExecutor>;
+
+describe('configuration generator', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    addProjectConfiguration(tree, 'api', {
+      root: 'apps/api',
+      projectType: 'application',
+      targets: {
+        build: {
+          executor: '@nx/esbuild:esbuild',
+          outputs: ['{options.outputPath}'],
+          options: { outputPath: 'dist/apps/api' },
+        },
+      },
+    });
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should add a container target', async () => {
+    await configurationGenerator(tree, {
+      project: 'api',
+      dockerRepository: 'ghcr.io/org',
+    });
+
+    expect(readProjectConfiguration(tree, 'api').targets.container).toEqual({
+      executor: '@mschoenbo/nx-build-tools:tag-and-build',
+      options: {
+        dockerRepository: 'ghcr.io/org',
+        buildTarget: 'build',
+        skipBuild: true,
+        context: '{workspaceRoot}',
+        push: false,
+      },
+      configurations: {
+        ci: { push: true },
+      },
+    });
+  });
+
+  it('should make the target depend on the build in targetDefaults', async () => {
+    await configurationGenerator(tree, {
+      project: 'api',
+      dockerRepository: 'ghcr.io/org',
+    });
+
+    expect(readNxJson(tree).targetDefaults.container).toEqual({
+      dependsOn: ['build'],
+    });
+  });
+
+  it('should add a target that build-affected-images builds after the build', async () => {
+    await configurationGenerator(tree, {
+      project: 'api',
+      dockerRepository: 'ghcr.io/org',
+    });
+    // Nx merges the targetDefaults into the project graph.
+    const { targets } = readProjectConfiguration(tree, 'api');
+    targets.container.dependsOn = readNxJson(tree).targetDefaults.container
+      .dependsOn as string[];
+    const context = {
+      root: '/virtual',
+      cwd: '/virtual',
+      isVerbose: false,
+      projectGraph: {
+        nodes: {
+          api: {
+            name: 'api',
+            type: 'app',
+            data: { root: 'apps/api', targets },
+          },
+        },
+        dependencies: {},
+      },
+      projectsConfigurations: { projects: {}, version: 2 },
+      nxJsonConfiguration: {},
+    } as ExecutorContext;
+    mockRunExecutor.mockImplementation(async () =>
+      (async function* () {
+        yield { success: true };
+      })()
+    );
+
+    const result = await buildAffectedImages({}, context);
+
+    expect(result.success).toBe(true);
+    expect(mockRunExecutor.mock.calls.map(([{ target }]) => target)).toEqual([
+      'build',
+      'container',
+    ]);
+  });
+
+  it('should scaffold a Dockerfile and .dockerignore', async () => {
+    await configurationGenerator(tree, {
+      project: 'api',
+      dockerRepository: 'ghcr.io/org',
+      port: 8080,
+    });
+
+    const dockerfile = tree.read('apps/api/Dockerfile', 'utf-8');
+    expect(dockerfile).toContain(
+      'COPY dist/apps/api/package.json dist/apps/api/package-lock.json ./'
+    );
+    expect(dockerfile).toContain('RUN npm ci --omit=dev');
+    expect(dockerfile).toContain('COPY dist/apps/api/ .');
+    expect(dockerfile).toContain('EXPOSE 8080');
+    expect(tree.read('.dockerignore', 'utf-8')).toContain('node_modules');
+  });
+
+  it('should keep existing files, targets and target defaults', async () => {
+    tree.write('apps/api/Dockerfile', 'FROM scratch\n');
+    tree.write('.dockerignore', 'dist\n');
+    const project = readProjectConfiguration(tree, 'api');
+    project.targets.image = {
+      executor: 'nx:run-commands',
+      options: { command: 'docker build .' },
+    };
+    updateProjectConfiguration(tree, 'api', project);
+    updateNxJson(tree, {
+      ...readNxJson(tree),
+      targetDefaults: { image: { cache: false, dependsOn: ['^build'] } },
+    });
+
+    await configurationGenerator(tree, {
+      project: 'api',
+      dockerRepository: 'ghcr.io/org',
+      targetName: 'image',
+    });
+
+    expect(tree.read('apps/api/Dockerfile', 'utf-8')).toBe('FROM scratch\n');
+    expect(tree.read('.dockerignore', 'utf-8')).toBe('dist\n');
+    expect(readProjectConfiguration(tree, 'api').targets.image.executor).toBe(
+      'nx:run-commands'
+    );
+    expect(readNxJson(tree).targetDefaults.image).toEqual({
+      cache: false,
+      dependsOn: ['^build', 'build'],
+    });
+  });
+
+  it('should be idempotent', async () => {
+    const options = { project: 'api', dockerRepository: 'ghcr.io/org' };
+    await configurationGenerator(tree, options);
+    const changes = () =>
+      tree
+        .listChanges()
+        .map((change) => [change.path, change.content?.toString()]);
+    const afterFirstRun = changes();
+
+    await configurationGenerator(tree, options);
+
+    expect(changes()).toEqual(afterFirstRun);
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  detectPackageManager,
+  formatFiles,
+  getOutputsForTargetAndConfiguration,
+  readNxJson,
+  readProjectConfiguration,
+  Tree,
+  updateNxJson,
+  updateProjectConfiguration,
+} from '@nx/devkit';
+import { renderNodeDockerfile } from '../../utils/node-dockerfile';
+import { ConfigurationGeneratorSchema } from './schema';
+
+import path = require('path');
+
+const DOCKERIGNORE = `.git
+.nx
+node_modules
+coverage
+tmp
+**/*.log
+`;
+
+/**
+ * Adds a `container` target using the tag-and-build executor to a project.
+ * Existing targets, Dockerfiles and `.dockerignore` files are left alone, so
+ * running the generator again changes nothing.
+ */
+export async function configurationGenerator(
+  tree: Tree,
+  options: ConfigurationGeneratorSchema
+) {
+  const targetName = options.targetName ?? 'container';
+  const buildTarget = options.buildTarget ?? 'build';
+  const projectConfig = readProjectConfiguration(tree, options.project);
+  const projectRoot = projectConfig.root;
+
+  if (projectConfig.targets?.[targetName]) {
+    console.log(
+      `Project '${options.project}' already has a '${targetName}' target, leaving it unchanged.`
+    );
+  } else {
+    projectConfig.targets = {
+      ...projectConfig.targets,
+      [targetName]: {
+        executor: '@mschoenbo/nx-build-tools:tag-and-build',
+        options: {
+          dockerRepository: options.dockerRepository,
+          buildTarget,
+          // targetDefaults run the build target before this one.
+          skipBuild: true,
+          context: '{workspaceRoot}',
+          push: false,
+        },
+        configurations: {
+          ci: { push: true },
+        },
+      },
+    };
+    updateProjectConfiguration(tree, options.project, projectConfig);
+  }
+
+  const nxJson = readNxJson(tree) ?? {};
+  const targetDefaults = nxJson.targetDefaults?.[targetName] ?? {};
+  const dependsOn = targetDefaults.dependsOn ?? [];
+  if (!dependsOn.includes(buildTarget)) {
+    nxJson.targetDefaults = {
+      ...nxJson.targetDefaults,
+      [targetName]: {
+        ...targetDefaults,
+        dependsOn: [...dependsOn, buildTarget],
+      },
+    };
+    updateNxJson(tree, nxJson);
+  }
+
+  if (!tree.exists(path.join(projectRoot, 'Dockerfile'))) {
+    const outputPath =
+      getOutputsForTargetAndConfiguration(
+        { project: options.project, target: buildTarget },
+        {},
+        { name: options.project, type: 'app', data: projectConfig }
+      )[0] ?? `dist/${projectRoot}`;
+    try {
+      tree.write(
+        path.join(projectRoot, 'Dockerfile'),
+        renderNodeDockerfile(options.project, detectPackageManager(tree.root), {
+          port: options.port ?? 3000,
+          source: outputPath,
+        })
+      );
+    } catch (error) {
+      console.warn(
+        `Warning: ${
+          error instanceof Error ? error.message : error
+        } No Dockerfile was scaffolded.`
+      );
+    }
+  }
+
+  // The executor is configured with the workspace root as build context.
+  if (!tree.exists('.dockerignore')) {
+    tree.write('.dockerignore', DOCKERIGNORE);
+  }
+
+  if (!options.skipFormat) {
+    await formatFiles(tree);
+  }
+}
+
+export default configurationGenerator;
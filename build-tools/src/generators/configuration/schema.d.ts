@@ -0,0 +1,8 @@
+export interface ConfigurationGeneratorSchema {
+  project: string;
+  dockerRepository: string;
+  targetName?: string;
+  buildTarget?: string;
+  port?: number;
+  skipFormat?: boolean;
+}
@@ -0,0 +1,24 @@
+import { ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+
+/**
+ * A spawned process for a mocked `spawn` that writes `output` to stderr and
+ * exits with `exitCode` on the next tick.
+ */
+export function fakeProcess({ exitCode = 0, output = '' } = {}): ChildProcess {
+  const child = Object.assign(new EventEmitter(), {
+    stdout: Object.assign(new EventEmitter(), { setEncoding: jest.fn() }),
+    stderr: Object.assign(new EventEmitter(), { setEncoding: jest.fn() }),
+    stdin: { end: jest.fn() },
+    kill: jest.fn(),
+  });
+  setImmediate(() => {
+    if (output) {
+      child.stderr.emit('data', output);
+    }
+    child.stdout.emit('end');
+    child.stderr.emit('end');
+    child.emit('close', exitCode, null);
+  });
+  return child as unknown as ChildProcess;
+}
@@ -0,0 +1,70 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import type { ProjectGraph } from '@nx/devkit';
+
+/**
+ * Lists the files changed between the merge base of `base` and `head`, and
+ * `head`, like `nx affected` does for committed changes.
+ */
+export async function getChangedFiles(
+  base: string,
+  head: string
+): Promise<string[]> {
+  // Without a shell, so the refs from options or NX_BASE cannot run commands.
+  const { stdout } = await promisify(execFile)('git', [
+    'diff',
+    '--name-only',
+    `${base}...${head}`,
+  ]);
+  return stdout
+    .split('\n')
+    .map((file) => file.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Returns the projects owning one of the changed files plus everything that
+ * depends on them. A changed file outside of every project (lock files,
+ * `nx.json`, ...) affects all projects. A project at the workspace root does
+ * not own these files, as that would hide them from the other projects.
+ */
+export function findAffectedProjects(
+  graph: ProjectGraph,
+  changedFiles: string[]
+): Set<string> {
+  const projects = Object.values(graph.nodes);
+  const affected = new Set<string>();
+
+  for (const file of changedFiles) {
+    const owner = projects
+      .filter(
+        (node) =>
+          node.data.root !== '.' &&
+          node.data.root !== '' &&
+          file.startsWith(`${node.data.root.replace(/\/$/, '')}/`)
+      )
+      .sort((a, b) => b.data.root.length - a.data.root.length)[0];
+    if (!owner) {
+      return new Set(projects.map((node) => node.name));
+    }
+    affected.add(owner.name);
+  }
+
+  const dependents = new Map<string, string[]>();
+  for (const dependencies of Object.values(graph.dependencies)) {
+    for (const { source, target } of dependencies) {
+      dependents.set(target, [...(dependents.get(target) ?? []), source]);
+    }
+  }
+  const queue = [...affected];
+  while (queue.length > 0) {
+    for (const dependent of dependents.get(queue.shift()) ?? []) {
+      if (!affected.has(dependent)) {
+        affected.add(dependent);
+        queue.push(dependent);
+      }
+    }
+  }
+
+  return affected;
+}
@@ -0,0 +1,106 @@
+import { ProjectGraphProjectNode } from '@nx/devkit';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { findMissingOutputs, parseBuildTargets } from './build-target';
+
+describe('build-target', () => {
+  describe('parseBuildTargets', () => {
+    it('should apply the default configuration unless one is given', () => {
+      expect(
+        parseBuildTargets(['build', 'prune-lockfile:ci'], 'production')
+      ).toEqual([
+        { target: 'build', configuration: 'production' },
+        { target: 'prune-lockfile', configuration: 'ci' },
+      ]);
+    });
+
+    it('should reject entries without a target', () => {
+      expect(() => parseBuildTargets(':production', undefined)).toThrow(
+        "Invalid build target ':production'."
+      );
+    });
+  });
+
+  describe('findMissingOutputs', () => {
+    let workspaceRoot: string;
+    const node = (outputs?: string[]): ProjectGraphProjectNode => ({
+      name: 'web',
+      type: 'app',
+      data: {
+        root: 'apps/web',
+        targets: {
+          build: {
+            outputs,
+            options: { outputPath: 'dist/apps/web' },
+            configurations: { ci: { outputPath: 'dist/ci/web' } },
+          },
+        },
+      },
+    });
+
+    beforeEach(() => {
+      workspaceRoot = mkdtempSync(join(tmpdir(), 'build-target-'));
+    });
+
+    afterEach(() => {
+      rmSync(workspaceRoot, { recursive: true, force: true });
+    });
+
+    it('should report missing and empty output directories', () => {
+      mkdirSync(join(workspaceRoot, 'dist/apps/web'), { recursive: true });
+
+      expect(
+        findMissingOutputs(
+          node(['{options.outputPath}', '{workspaceRoot}/coverage/web']),
+          { target: 'build', configuration: 'production' },
+          {},
+          workspaceRoot
+        )
+      ).toEqual(['dist/apps/web', 'coverage/web']);
+    });
+
+    it('should resolve outputs with the configuration and overrides', () => {
+      mkdirSync(join(workspaceRoot, 'dist/ci/web'), { recursive: true });
+      writeFileSync(join(workspaceRoot, 'dist/ci/web/main.js'), '');
+
+      expect(
+        findMissingOutputs(
+          node(['{options.outputPath}']),
+          { target: 'build', configuration: 'ci' },
+          {},
+          workspaceRoot
+        )
+      ).toEqual([]);
+      expect(
+        findMissingOutputs(
+          node(['{options.outputPath}']),
+          { target: 'build', configuration: 'ci' },
+          { outputPath: 'dist/other' },
+          workspaceRoot
+        )
+      ).toEqual(['dist/other']);
+    });
+
+    it('should check globs by their directory', () => {
+      mkdirSync(join(workspaceRoot, 'dist/apps/web'), { recursive: true });
+      writeFileSync(join(workspaceRoot, 'dist/apps/web/main.js'), '');
+
+      expect(
+        findMissingOutputs(
+          node(['{workspaceRoot}/dist/apps/web/**/*.js']),
+          { target: 'build' },
+          {},
+          workspaceRoot
+        )
+      ).toEqual([]);
+    });
+
+    it('should not guess outputs that are not declared', () => {
+      expect(
+        findMissingOutputs(node(), { target: 'build' }, {}, workspaceRoot)
+      ).toEqual([]);
+    });
+  });
+});
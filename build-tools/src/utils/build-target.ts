@@ -0,0 +1,66 @@
+import {
+  getOutputsForTargetAndConfiguration,
+  ProjectGraphProjectNode,
+} from '@nx/devkit';
+import { existsSync, readdirSync, statSync } from 'fs';
+
+import path = require('path');
+
+export interface BuildTargetRun {
+  target: string;
+  configuration?: string;
+}
+
+/**
+ * Parses the `buildTarget` option. Each entry is a target of the project,
+ * optionally with its own configuration as in `build:development`.
+ */
+export function parseBuildTargets(
+  buildTarget: string | string[],
+  defaultConfiguration: string | undefined
+): BuildTargetRun[] {
+  return [buildTarget].flat().map((entry) => {
+    const [target, configuration] = entry.split(':');
+    if (!target) {
+      throw new Error(`Invalid build target '${entry}'.`);
+    }
+    return { target, configuration: configuration || defaultConfiguration };
+  });
+}
+
+/**
+ * Strips glob segments, so `dist/app/**` is checked as `dist/app`.
+ */
+function staticPrefix(output: string): string {
+  const segments = output.split('/');
+  const glob = segments.findIndex((segment) => /[*?[\]{}]/.test(segment));
+  return glob === -1 ? output : segments.slice(0, glob).join('/');
+}
+
+function isEmpty(file: string): boolean {
+  return statSync(file).isDirectory() && readdirSync(file).length === 0;
+}
+
+/**
+ * Returns the declared `outputs` of the target that are missing or empty
+ * directories, relative to the workspace root. Targets without declared
+ * outputs are not checked, as Nx would only guess their locations.
+ */
+export function findMissingOutputs(
+  node: ProjectGraphProjectNode,
+  run: BuildTargetRun,
+  overrides: Record<string, unknown>,
+  workspaceRoot: string
+): string[] {
+  if (!node.data.targets?.[run.target]?.outputs) {
+    return [];
+  }
+  return getOutputsForTargetAndConfiguration(
+    { project: node.name, ...run },
+    overrides,
+    node
+  ).filter((output) => {
+    const file = path.join(workspaceRoot, staticPrefix(output));
+    return !existsSync(file) || isEmpty(file);
+  });
+}
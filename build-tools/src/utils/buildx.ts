@@ -0,0 +1,67 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+export type BuildxDriver = 'docker-container' | 'kubernetes';
+
+export interface BuildxOptions {
+  platforms?: string[];
+  builder?: string;
+  builderDriver?: BuildxDriver;
+  load?: boolean;
+  push?: boolean;
+}
+
+const PLATFORM_PATTERN = /^[a-z0-9]+\/[a-z0-9_]+(\/[a-z0-9]+)?$/;
+
+/**
+ * Checks option combinations that `docker buildx build` would reject, so the
+ * executor can fail before spending time on the Nx build.
+ *
+ * @returns An error message, or `null` when the options are valid.
+ */
+export function validateBuildxOptions(options: BuildxOptions): string | null {
+  const platforms = options.platforms ?? [];
+  const multiPlatform = platforms.length > 1;
+
+  if (platforms.some((platform) => !PLATFORM_PATTERN.test(platform))) {
+    return `Invalid platform in [${platforms.join(
+      ', '
+    )}]. Platforms must look like 'linux/amd64' or 'linux/arm64/v8'.`;
+  }
+
+  if (multiPlatform && options.load && !options.push) {
+    return `Cannot load a multi-platform image (${platforms.join(
+      ', '
+    )}) into the local Docker image store. Build a single platform with 'load', or set 'push' to publish the manifest list.`;
+  }
+
+  return null;
+}
+
+/**
+ * Makes sure the named buildx builder exists, creating it with the given
+ * driver when `docker buildx inspect` cannot find it.
+ */
+export async function ensureBuildxBuilder(
+  name: string,
+  driver: BuildxDriver = 'docker-container'
+): Promise<void> {
+  try {
+    await promisify(execFile)('docker', ['buildx', 'inspect', name]);
+    console.log(`Using existing buildx builder '${name}'`);
+    return;
+  } catch {
+    console.log(
+      `Buildx builder '${name}' not found, creating it with driver '${driver}'...`
+    );
+  }
+
+  await promisify(execFile)('docker', [
+    'buildx',
+    'create',
+    '--name',
+    name,
+    '--driver',
+    driver,
+  ]);
+}
@@ -0,0 +1,79 @@
+import { toDockerTag } from './tags';
+
+import path = require('path');
+
+export type CacheType = 'registry' | 'local' | 'inline';
+
+export interface CacheOptions {
+  type: CacheType;
+  ref?: string;
+  path?: string;
+  mode?: 'min' | 'max';
+  perBranch?: boolean;
+  export?: boolean;
+}
+
+export interface CacheArgsContext {
+  /** Image name without tag, e.g. `ghcr.io/org/app`. */
+  imageName: string;
+  appName: string;
+  workspaceRoot: string;
+  /** Current branch, only needed when `perBranch` is set. */
+  branch?: string | null;
+}
+
+export interface CacheArgs {
+  cacheFrom: string[];
+  cacheTo: string | null;
+}
+
+/**
+ * Maps the `cache` option to buildx `--cache-from` / `--cache-to` values.
+ *
+ * With `perBranch`, the branch cache is imported first and the shared cache
+ * second, so a new branch still starts warm.
+ */
+export function buildCacheArgs(
+  cache: CacheOptions,
+  ctx: CacheArgsContext
+): CacheArgs {
+  const mode = cache.mode ?? 'max';
+  const exportCache = cache.export ?? true;
+  const branchSuffix =
+    cache.perBranch && ctx.branch ? toDockerTag(ctx.branch) : null;
+
+  switch (cache.type) {
+    case 'registry': {
+      const ref = cache.ref ?? `${ctx.imageName}:buildcache`;
+      const refs = branchSuffix ? [`${ref}-${branchSuffix}`, ref] : [ref];
+      return {
+        cacheFrom: refs.map((r) => `type=registry,ref=${r}`),
+        cacheTo: exportCache
+          ? `type=registry,ref=${refs[0]},mode=${mode}`
+          : null,
+      };
+    }
+    case 'local': {
+      const dir = path.resolve(
+        ctx.workspaceRoot,
+        cache.path ?? path.join('tmp', 'buildx-cache', ctx.appName)
+      );
+      const dirs = branchSuffix ? [path.join(dir, branchSuffix), dir] : [dir];
+      return {
+        cacheFrom: dirs.map((d) => `type=local,src=${d}`),
+        cacheTo: exportCache ? `type=local,dest=${dirs[0]},mode=${mode}` : null,
+      };
+    }
+    case 'inline': {
+      // Inline cache lives in the pushed image itself, so we can only import
+      // it from a tag that was pushed by an earlier build.
+      const ref = cache.ref ?? `${ctx.imageName}:latest`;
+      return {
+        cacheFrom: [`type=registry,ref=${ref}`],
+        cacheTo: exportCache ? 'type=inline' : null,
+      };
+    }
+    default:
+      throw new Error(`Unsupported cache type '${cache.type}'.`);
+  }
+}
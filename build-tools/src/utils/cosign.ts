@@ -0,0 +1,100 @@
+export interface CosignKey {
+  /** Key file relative to the workspace root, or a KMS reference like `awskms://…`. */
+  key?: string;
+  /** Environment variable holding the key itself. */
+  keyEnv?: string;
+}
+
+export interface CosignCommand {
+  command: string;
+  args: string[];
+}
+
+export interface SignOptions extends CosignKey {
+  /** Annotations added to the signature next to the project and version. */
+  annotations?: Record<string, string>;
+}
+
+/**
+ * Turns the key options into a cosign `--key` reference. Files are resolved
+ * with `resolveFile`, keys in the environment are passed as `env://NAME` so
+ * they never show up in the command line.
+ *
+ * @throws When not exactly one of `key` and `keyEnv` is set, or the
+ * environment variable is empty.
+ */
+export function cosignKeyRef(
+  { key, keyEnv }: CosignKey,
+  resolveFile: (file: string) => string
+): string {
+  if (!!key === !!keyEnv) {
+    throw new Error(`Set exactly one of 'key' and 'keyEnv' for cosign.`);
+  }
+  if (keyEnv) {
+    if (!process.env[keyEnv]) {
+      throw new Error(
+        `Environment variable ${keyEnv} with the cosign key is not set.`
+      );
+    }
+    return `env://${keyEnv}`;
+  }
+  return key.includes('://') ? key : resolveFile(key);
+}
+
+/**
+ * The annotations every signature of a project's image carries, so a
+ * verification can check it was signed for that project and version.
+ */
+export function signatureAnnotations(
+  appName: string,
+  version: string,
+  extra: Record<string, string> = {}
+): Record<string, string> {
+  return {
+    'nx.project': appName,
+    'org.opencontainers.image.version': version,
+    ...extra,
+  };
+}
+
+function annotationArgs(annotations: Record<string, string>): string[] {
+  return Object.entries(annotations).flatMap(([name, value]) => [
+    '-a',
+    `${name}=${value}`,
+  ]);
+}
+
+/**
+ * Signs an image, which should be referenced by digest, not by tag.
+ */
+export function cosignSignCommand(
+  image: string,
+  keyRef: string,
+  annotations: Record<string, string>
+): CosignCommand {
+  return {
+    command: 'cosign',
+    args: [
+      'sign',
+      '--yes',
+      '--key',
+      keyRef,
+      ...annotationArgs(annotations),
+      image,
+    ],
+  };
+}
+
+/**
+ * Verifies the signature of an image and that it carries the annotations.
+ */
+export function cosignVerifyCommand(
+  image: string,
+  keyRef: string,
+  annotations: Record<string, string>
+): CosignCommand {
+  return {
+    command: 'cosign',
+    args: ['verify', '--key', keyRef, ...annotationArgs(annotations), image],
+  };
+}
@@ -0,0 +1,254 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { engines, ImageBuild, selectEngine } from './engine';
+
+const build: ImageBuild = {
+  dockerfile: '/ws/apps/web/Dockerfile',
+  context: '/ws/apps/web',
+  tags: ['ghcr.io/org/web:1.2.3', 'ghcr.io/org/web:latest'],
+  buildArgs: { APP_VERSION: '1.2.3' },
+  labels: { 'nx.project': 'web' },
+  secrets: [],
+  platforms: [],
+  push: true,
+  load: false,
+  cacheFrom: [],
+  cacheTo: null,
+};
+
+describe('engine', () => {
+  describe('commands', () => {
+    it('should build and push in one docker buildx command', () => {
+      expect(
+        engines.docker.commands(
+          { ...build, secrets: [{ id: 'npm', env: 'NPM_TOKEN' }] },
+          '/tmp/digest'
+        )
+      ).toEqual([
+        {
+          step: 'build',
+          command: 'docker',
+          args: [
+            'buildx',
+            'build',
+            '--push',
+            '-t',
+            'ghcr.io/org/web:1.2.3',
+            '-t',
+            'ghcr.io/org/web:latest',
+            '-f',
+            '/ws/apps/web/Dockerfile',
+            '/ws/apps/web',
+            '--build-arg',
+            'APP_VERSION=1.2.3',
+            '--label',
+            'nx.project=web',
+            '--secret',
+            'id=npm,env=NPM_TOKEN',
+            '--metadata-file',
+            '/tmp/digest',
+          ],
+        },
+      ]);
+    });
+
+    it('should push every tag separately with podman', () => {
+      const commands = engines.podman.commands(build, '/tmp/digest');
+
+      expect(commands).toEqual([
+        {
+          step: 'build',
+          command: 'podman',
+          args: [
+            'build',
+            '-t',
+            'ghcr.io/org/web:1.2.3',
+            '-t',
+            'ghcr.io/org/web:latest',
+            '-f',
+            '/ws/apps/web/Dockerfile',
+            '--build-arg',
+            'APP_VERSION=1.2.3',
+            '--label',
+            'nx.project=web',
+            '/ws/apps/web',
+          ],
+        },
+        {
+          step: 'push',
+          command: 'podman',
+          args: [
+            'push',
+            '--digestfile',
+            '/tmp/digest',
+            'ghcr.io/org/web:1.2.3',
+          ],
+        },
+        {
+          step: 'push',
+          command: 'podman',
+          args: [
+            'push',
+            '--digestfile',
+            '/tmp/digest',
+            'ghcr.io/org/web:latest',
+          ],
+        },
+      ]);
+    });
+
+    it('should use buildah bud and skip pushing local builds', () => {
+      const commands = engines.buildah.commands({ ...build, push: false });
+
+      expect(commands).toHaveLength(1);
+      expect(commands[0].command).toBe('buildah');
+      expect(commands[0].args[0]).toBe('bud');
+    });
+
+    it('should map the options to kaniko destinations', () => {
+      expect(
+        engines.kaniko.commands(
+          { ...build, push: false, target: 'runtime' },
+          '/tmp/digest'
+        )
+      ).toEqual([
+        {
+          step: 'build',
+          command: 'executor',
+          args: [
+            '--dockerfile',
+            '/ws/apps/web/Dockerfile',
+            '--context',
+            '/ws/apps/web',
+            '--destination',
+            'ghcr.io/org/web:1.2.3',
+            '--destination',
+            'ghcr.io/org/web:latest',
+            '--no-push',
+            '--build-arg',
+            'APP_VERSION=1.2.3',
+            '--label',
+            'nx.project=web',
+            '--target',
+            'runtime',
+            '--digest-file',
+            '/tmp/digest',
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('pushCommands', () => {
+    it('should push the loaded image with docker push', () => {
+      const commands = engines.docker.pushCommands(build, '/tmp/digest');
+
+      expect(commands.map(({ args }) => args)).toEqual([
+        ['push', 'ghcr.io/org/web:1.2.3'],
+        ['push', 'ghcr.io/org/web:latest'],
+      ]);
+      expect(
+        commands[1].outputDigest([
+          'The push refers to repository [ghcr.io/org/web]',
+          `latest: digest: sha256:${'c'.repeat(64)} size: 1570`,
+        ])
+      ).toBe(`sha256:${'c'.repeat(64)}`);
+    });
+
+    it('should rebuild from the cache with docker buildx --push for attestations', () => {
+      const [command] = engines.docker.pushCommands(
+        { ...build, sbom: true },
+        '/tmp/digest'
+      );
+
+      expect(command.args).toContain('--push');
+      expect(command.args).toContain('/tmp/digest');
+    });
+
+    it('should only push the loaded image with podman', () => {
+      expect(
+        engines.podman.pushCommands(build).map(({ step }) => step)
+      ).toEqual(['push', 'push']);
+    });
+  });
+
+  describe('unsupportedOptions', () => {
+    it('should accept everything with docker', () => {
+      expect(
+        engines.docker.unsupportedOptions({
+          ...build,
+          builder: 'ci',
+          platforms: ['linux/amd64', 'linux/arm64'],
+          cacheFrom: ['type=registry,ref=ghcr.io/org/web:buildcache'],
+        })
+      ).toEqual([]);
+    });
+
+    it('should report buildx-only options for the other engines', () => {
+      const options = {
+        ...build,
+        builder: 'ci',
+        platforms: ['linux/amd64', 'linux/arm64'],
+        cacheTo: 'type=inline',
+      };
+
+      expect(engines.podman.unsupportedOptions(options)).toEqual([
+        'builder',
+        'cache',
+        'multiple platforms',
+      ]);
+      expect(
+        engines.kaniko.unsupportedOptions({
+          ...build,
+          load: true,
+          secrets: [{ id: 'npm', env: 'NPM_TOKEN' }],
+        })
+      ).toEqual(['load', 'secrets']);
+      expect(
+        engines.docker.unsupportedOptions({
+          ...build,
+          scan: true,
+          platforms: ['linux/amd64', 'linux/arm64'],
+        })
+      ).toEqual(['scan with multiple platforms']);
+    });
+  });
+
+  describe('selectEngine', () => {
+    const originalPath = process.env.PATH;
+    let binDir: string;
+
+    beforeEach(() => {
+      binDir = mkdtempSync(join(tmpdir(), 'engine-'));
+      process.env.PATH = binDir;
+    });
+
+    afterEach(() => {
+      process.env.PATH = originalPath;
+      rmSync(binDir, { recursive: true, force: true });
+    });
+
+    it('should return the configured engine', () => {
+      expect(selectEngine('kaniko').name).toBe('kaniko');
+    });
+
+    it('should detect the first engine on the PATH', () => {
+      writeFileSync(join(binDir, 'buildah'), '');
+      writeFileSync(join(binDir, 'podman'), '');
+
+      expect(selectEngine().name).toBe('podman');
+    });
+
+    it('should fall back to docker when no engine is found', () => {
+      expect(selectEngine('auto').name).toBe('docker');
+    });
+
+    it('should reject unknown engines', () => {
+      expect(() => selectEngine('nerdctl' as never)).toThrow(
+        "Unknown engine 'nerdctl'."
+      );
+    });
+  });
+});
@@ -0,0 +1,323 @@
+import { existsSync, readFileSync } from 'fs';
+import { readBuildxDigest } from './metadata';
+
+import path = require('path');
+
+export type EngineName = 'docker' | 'podman' | 'buildah' | 'kaniko';
+
+/**
+ * Engine-neutral description of an image build. Paths are absolute and
+ * placeholders already rendered.
+ */
+export interface ImageBuild {
+  dockerfile: string;
+  context: string;
+  /** Fully qualified image references. */
+  tags: string[];
+  /** Build args in the order they are passed. */
+  buildArgs: Record<string, string>;
+  labels: Record<string, string>;
+  secrets: { id: string; src?: string; env?: string }[];
+  target?: string;
+  platforms: string[];
+  push: boolean;
+  load: boolean;
+  builder?: string;
+  progress?: 'auto' | 'plain' | 'quiet';
+  cacheFrom: string[];
+  cacheTo: string | null;
+  /** Whether the image is scanned between building and pushing it. */
+  scan?: boolean;
+  /** Attach an SBOM attestation. */
+  sbom?: boolean;
+  /** Provenance attestation mode; `undefined` keeps the buildx default. */
+  provenance?: 'min' | 'max' | false;
+}
+
+export interface EngineCommand {
+  /** What the command does, used in error messages. */
+  step: 'build' | 'push';
+  command: string;
+  args: string[];
+  /** Reads the digest from the output, for commands that only print it. */
+  outputDigest?: (lines: string[]) => string | null;
+}
+
+export interface ContainerEngine {
+  name: EngineName;
+  /** Name for messages, e.g. `Docker`. */
+  displayName: string;
+  /** Executable that is looked up on the PATH. */
+  command: string;
+  /**
+   * Whether registry logins go through `<command> login`. Otherwise the
+   * credentials are written to the temporary Docker config directly.
+   */
+  cliLogin: boolean;
+  /** Options of the build that the engine cannot honour. */
+  unsupportedOptions(build: ImageBuild): string[];
+  /**
+   * Commands that build and, when pushing, push the image, run in order.
+   * Without a `digestFile` they are only formatted for a dry run.
+   */
+  commands(build: ImageBuild, digestFile?: string): EngineCommand[];
+  /**
+   * Commands that push an image that was built and loaded before, e.g. once
+   * it passed the scan. They push that image itself where the engine can.
+   */
+  pushCommands(build: ImageBuild, digestFile?: string): EngineCommand[];
+  /** Reads the image digest written to the `digestFile`, if any. */
+  readDigest(digestFile: string): string | null;
+}
+
+function readDigestFile(digestFile: string): string | null {
+  return existsSync(digestFile)
+    ? readFileSync(digestFile, 'utf-8').trim() || null
+    : null;
+}
+
+function keyValueArgs(flag: string, values: Record<string, string>): string[] {
+  return Object.entries(values).flatMap(([name, value]) => [
+    flag,
+    `${name}=${value}`,
+  ]);
+}
+
+function secretArgs(build: ImageBuild): string[] {
+  return build.secrets.flatMap((secret) => [
+    '--secret',
+    `id=${secret.id},${secret.src ? `src=${secret.src}` : `env=${secret.env}`}`,
+  ]);
+}
+
+/**
+ * Options that only buildx understands, shared by the daemonless engines.
+ */
+function buildxOnlyOptions(build: ImageBuild): string[] {
+  const unsupported: string[] = [];
+  if (build.builder) {
+    unsupported.push('builder');
+  }
+  if (build.cacheFrom.length > 0 || build.cacheTo) {
+    unsupported.push('cache');
+  }
+  if (build.platforms.length > 1) {
+    unsupported.push('multiple platforms');
+  }
+  if (build.sbom) {
+    unsupported.push('sbom');
+  }
+  if (build.provenance) {
+    unsupported.push('provenance');
+  }
+  return unsupported;
+}
+
+function buildxCommands(
+  build: ImageBuild,
+  digestFile?: string
+): EngineCommand[] {
+  const args = ['buildx', 'build'];
+  if (build.push) {
+    args.push('--push');
+  }
+  if (build.load) {
+    args.push('--load');
+  }
+  if (build.builder) {
+    args.push('--builder', build.builder);
+  }
+  if (build.platforms.length > 0) {
+    args.push('--platform', build.platforms.join(','));
+  }
+  if (build.progress) {
+    args.push('--progress', build.progress);
+  }
+  build.tags.forEach((tag) => args.push('-t', tag));
+  args.push('-f', build.dockerfile, build.context);
+  args.push(...keyValueArgs('--build-arg', build.buildArgs));
+  args.push(...keyValueArgs('--label', build.labels));
+  args.push(...secretArgs(build));
+  if (build.target) {
+    args.push('--target', build.target);
+  }
+  build.cacheFrom.forEach((source) => args.push('--cache-from', source));
+  if (build.cacheTo) {
+    args.push('--cache-to', build.cacheTo);
+  }
+  if (build.sbom) {
+    args.push('--sbom', 'true');
+  }
+  if (build.provenance !== undefined) {
+    args.push(
+      '--provenance',
+      build.provenance ? `mode=${build.provenance}` : 'false'
+    );
+  }
+  // buildx reports the pushed digest only through its metadata file.
+  if (digestFile) {
+    args.push('--metadata-file', digestFile);
+  }
+  return [{ step: 'build', command: 'docker', args }];
+}
+
+/** `docker push` prints `<tag>: digest: sha256:… size: …` when it is done. */
+function dockerPushDigest(lines: string[]): string | null {
+  const digests = lines.join('\n').match(/digest: sha256:[a-f0-9]{64}/g);
+  return digests ? digests[digests.length - 1].substring(8) : null;
+}
+
+const docker: ContainerEngine = {
+  name: 'docker',
+  displayName: 'Docker',
+  command: 'docker',
+  cliLogin: true,
+  unsupportedOptions: (build) =>
+    build.scan && build.platforms.length > 1
+      ? ['scan with multiple platforms']
+      : [],
+  commands: buildxCommands,
+  // The scanned image is pushed from the image store. It cannot hold
+  // attestations, so with those buildx builds again from the cache.
+  pushCommands: (build, digestFile) =>
+    build.sbom || build.provenance
+      ? buildxCommands(build, digestFile)
+      : build.tags.map((tag) => ({
+          step: 'push',
+          command: 'docker',
+          args: ['push', tag],
+          outputDigest: dockerPushDigest,
+        })),
+  readDigest: readBuildxDigest,
+};
+
+/**
+ * Podman and Buildah share their build flags, but build into local storage
+ * and push every tag separately.
+ */
+function daemonlessEngine(
+  name: 'podman' | 'buildah',
+  displayName: string,
+  buildCommand: string
+): ContainerEngine {
+  const commands = (build: ImageBuild, digestFile?: string) => {
+    const args = [buildCommand];
+    if (build.platforms.length > 0) {
+      args.push('--platform', build.platforms[0]);
+    }
+    build.tags.forEach((tag) => args.push('-t', tag));
+    args.push('-f', build.dockerfile);
+    args.push(...keyValueArgs('--build-arg', build.buildArgs));
+    args.push(...keyValueArgs('--label', build.labels));
+    args.push(...secretArgs(build));
+    if (build.target) {
+      args.push('--target', build.target);
+    }
+    args.push(build.context);
+
+    const steps: EngineCommand[] = [{ step: 'build', command: name, args }];
+    if (build.push) {
+      build.tags.forEach((tag) =>
+        steps.push({
+          step: 'push',
+          command: name,
+          args: digestFile
+            ? ['push', '--digestfile', digestFile, tag]
+            : ['push', tag],
+        })
+      );
+    }
+    return steps;
+  };
+
+  return {
+    name,
+    displayName,
+    command: name,
+    cliLogin: true,
+    unsupportedOptions: buildxOnlyOptions,
+    commands,
+    pushCommands: (build, digestFile) =>
+      commands(build, digestFile).filter(({ step }) => step === 'push'),
+    readDigest: readDigestFile,
+  };
+}
+
+const kaniko: ContainerEngine = {
+  name: 'kaniko',
+  displayName: 'kaniko',
+  command: 'executor',
+  cliLogin: false,
+  unsupportedOptions(build) {
+    const unsupported = buildxOnlyOptions(build);
+    if (build.load) {
+      unsupported.push('load');
+    }
+    if (build.secrets.length > 0) {
+      unsupported.push('secrets');
+    }
+    // kaniko pushes as part of the build, before the image could be scanned.
+    if (build.scan) {
+      unsupported.push('scan');
+    }
+    return unsupported;
+  },
+  commands(build, digestFile) {
+    const args = ['--dockerfile', build.dockerfile, '--context', build.context];
+    build.tags.forEach((tag) => args.push('--destination', tag));
+    if (!build.push) {
+      args.push('--no-push');
+    }
+    if (build.platforms.length > 0) {
+      args.push('--custom-platform', build.platforms[0]);
+    }
+    args.push(...keyValueArgs('--build-arg', build.buildArgs));
+    args.push(...keyValueArgs('--label', build.labels));
+    if (build.target) {
+      args.push('--target', build.target);
+    }
+    if (digestFile) {
+      args.push('--digest-file', digestFile);
+    }
+    return [{ step: 'build', command: 'executor', args }];
+  },
+  pushCommands: () => [],
+  readDigest: readDigestFile,
+};
+
+export const engines: Record<EngineName, ContainerEngine> = {
+  docker,
+  podman: daemonlessEngine('podman', 'Podman', 'build'),
+  buildah: daemonlessEngine('buildah', 'Buildah', 'bud'),
+  kaniko,
+};
+
+function isOnPath(command: string): boolean {
+  return (process.env.PATH ?? '')
+    .split(path.delimiter)
+    .filter(Boolean)
+    .some((dir) => existsSync(path.join(dir, command)));
+}
+
+/**
+ * Returns the engine for the `engine` option. `auto` (the default) picks the
+ * first of docker, podman, buildah and kaniko found on the PATH, and falls
+ * back to docker so a missing engine fails with a clear error later.
+ */
+export function selectEngine(
+  name: EngineName | 'auto' = 'auto'
+): ContainerEngine {
+  if (name !== 'auto') {
+    if (!engines[name]) {
+      throw new Error(
+        `Unknown engine '${name}'. Use one of: auto, ${Object.keys(
+          engines
+        ).join(', ')}.`
+      );
+    }
+    return engines[name];
+  }
+  return (
+    Object.values(engines).find((engine) => isOnPath(engine.command)) ?? docker
+  );
+}
@@ -0,0 +1,65 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+
+/**
+ * CI systems usually check out a detached HEAD, so the branch name is taken
+ * from their environment first and only then from Git.
+ */
+const BRANCH_ENV_VARS = [
+  'GITHUB_HEAD_REF',
+  'GITHUB_REF_NAME',
+  'CI_COMMIT_REF_NAME',
+  'BUILDKITE_BRANCH',
+];
+
+/**
+ * Returns the name of the branch being built, or `null` on a detached HEAD
+ * outside of a known CI environment.
+ */
+export async function getCurrentBranch(): Promise<string | null> {
+  for (const name of BRANCH_ENV_VARS) {
+    const value = process.env[name];
+    if (value) {
+      return value;
+    }
+  }
+  const githubRef = process.env.GITHUB_REF?.match(/^refs\/heads\/(.+)$/);
+  if (githubRef) {
+    return githubRef[1];
+  }
+
+  const { stdout } = await promisify(exec)('git rev-parse --abbrev-ref HEAD');
+  const branch = stdout.trim();
+  return branch && branch !== 'HEAD' ? branch : null;
+}
+
+/**
+ * Returns the number of the pull / merge request being built, detected from
+ * the GitHub Actions, GitLab CI and Buildkite environments.
+ */
+export function getPullRequestNumber(): string | null {
+  const githubRef = process.env.GITHUB_REF?.match(/^refs\/pull\/(\d+)\//);
+  if (githubRef) {
+    return githubRef[1];
+  }
+  if (process.env.CI_MERGE_REQUEST_IID) {
+    return process.env.CI_MERGE_REQUEST_IID;
+  }
+  const buildkite = process.env.BUILDKITE_PULL_REQUEST;
+  if (buildkite && buildkite !== 'false') {
+    return buildkite;
+  }
+  return null;
+}
+
+/**
+ * Returns the URL of the `origin` remote, or `null` if there is none.
+ */
+export async function getRemoteUrl(): Promise<string | null> {
+  try {
+    const { stdout } = await promisify(exec)('git remote get-url origin');
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
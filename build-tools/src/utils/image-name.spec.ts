@@ -0,0 +1,57 @@
+import {
+  imageReference,
+  normalizeImageName,
+  normalizeRepository,
+  renderImageName,
+} from './image-name';
+
+describe('image-name', () => {
+  describe('normalizeRepository', () => {
+    it('should drop trailing slashes and lowercase the path', () => {
+      expect(normalizeRepository('ghcr.io/Your-Org/')).toBe('ghcr.io/your-org');
+    });
+
+    it('should keep registry hosts with ports and drop a scheme', () => {
+      expect(normalizeRepository('https://Registry.local:5000//team')).toBe(
+        'registry.local:5000/team'
+      );
+      expect(normalizeRepository('localhost:5000')).toBe('localhost:5000');
+    });
+  });
+
+  describe('normalizeImageName', () => {
+    it('should turn scoped project names into repository paths', () => {
+      expect(normalizeImageName('@org/Web')).toBe('org/web');
+    });
+
+    it('should replace invalid characters and collapse separators', () => {
+      expect(normalizeImageName('my app..v2_')).toBe('my-app-v2');
+      expect(normalizeImageName('my__app--x')).toBe('my__app--x');
+    });
+  });
+
+  describe('renderImageName', () => {
+    afterEach(() => {
+      delete process.env.TEAM;
+    });
+
+    it('should replace the app name and environment variables', () => {
+      process.env.TEAM = 'payments';
+      expect(renderImageName('{env.TEAM}/{projectName}', 'api')).toBe(
+        'payments/api'
+      );
+    });
+
+    it('should reject unknown placeholders', () => {
+      expect(() => renderImageName('{version}', 'api')).toThrow(
+        "Unknown placeholder '{version}'"
+      );
+    });
+  });
+
+  describe('imageReference', () => {
+    it('should join repository and name with a single slash', () => {
+      expect(imageReference('ghcr.io/org/', '/web')).toBe('ghcr.io/org/web');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Turns a value into a repository path component as allowed by the OCI
+ * distribution spec: lowercase alphanumerics separated by `.`, `_`, `__` or
+ * dashes.
+ */
+function toPathComponent(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/[._-]{2,}/g, (separators) =>
+      separators === '__' || /^-+$/.test(separators) ? separators : '-'
+    )
+    .replace(/^[._-]+|[._-]+$/g, '');
+}
+
+function isRegistryHost(component: string): boolean {
+  return (
+    component.includes('.') ||
+    component.includes(':') ||
+    component === 'localhost'
+  );
+}
+
+/**
+ * Normalizes a repository prefix such as `ghcr.io/Your-Org/` into
+ * `ghcr.io/your-org`. A leading scheme and stray slashes are dropped.
+ */
+export function normalizeRepository(repository: string): string {
+  const components = repository
+    .trim()
+    .replace(/^[a-z]+:\/\//i, '')
+    .split('/')
+    .filter(Boolean);
+  return components
+    .map((component, index) =>
+      index === 0 && isRegistryHost(component)
+        ? component.toLowerCase()
+        : toPathComponent(component)
+    )
+    .filter(Boolean)
+    .join('/');
+}
+
+/**
+ * Normalizes an image name, e.g. the scoped project name `@org/Web` becomes
+ * `org/web`.
+ */
+export function normalizeImageName(name: string): string {
+  return name.split('/').map(toPathComponent).filter(Boolean).join('/');
+}
+
+/**
+ * Renders an `imageName` template. Supports `{appName}` (or `{projectName}`)
+ * and `{env.NAME}`.
+ */
+export function renderImageName(template: string, appName: string): string {
+  return template.replace(/\{([^{}]+)\}/g, (placeholder, name: string) => {
+    if (name === 'appName' || name === 'projectName') {
+      return appName;
+    }
+    if (name.startsWith('env.')) {
+      return process.env[name.substring('env.'.length)] ?? '';
+    }
+    throw new Error(
+      `Unknown placeholder '${placeholder}' in image name '${template}'.`
+    );
+  });
+}
+
+/**
+ * Joins a repository and an image name into a normalized image reference
+ * without tag, e.g. `ghcr.io/your-org/web`.
+ */
+export function imageReference(repository: string, name: string): string {
+  return [normalizeRepository(repository), normalizeImageName(name)]
+    .filter(Boolean)
+    .join('/');
+}
+
+/**
+ * The image references to tag, one per repository: `dockerRepository` first,
+ * then the `registries`, without duplicates.
+ *
+ * @throws When the rendered image name is empty or uses unknown placeholders.
+ */
+export function imageReferences(
+  repositories: string[],
+  imageName: string | undefined,
+  appName: string
+): string[] {
+  const name = normalizeImageName(
+    renderImageName(imageName ?? '{appName}', appName)
+  );
+  if (!name) {
+    throw new Error(`Image name '${imageName}' is empty.`);
+  }
+  return [
+    ...new Set(
+      repositories.map((repository) => imageReference(repository, name))
+    ),
+  ];
+}
@@ -0,0 +1,46 @@
+import { ProjectGraphProjectNode } from '@nx/devkit';
+
+const TAG_AND_BUILD_EXECUTOR = '@mschoenbo/nx-build-tools:tag-and-build';
+
+/**
+ * The image target of a project: the configured `target`, or else the first
+ * target that uses the tag-and-build executor.
+ */
+export function findImageTarget(
+  node: ProjectGraphProjectNode,
+  target: string | undefined
+): string | null {
+  const targets = node.data.targets ?? {};
+  if (target) {
+    return targets[target] ? target : null;
+  }
+  return (
+    Object.keys(targets).find(
+      (name) => targets[name].executor === TAG_AND_BUILD_EXECUTOR
+    ) ?? null
+  );
+}
+
+/**
+ * The targets of the same project that `target` depends on. Targets started
+ * with `runExecutor` do not run their `dependsOn`, so callers that skip the
+ * build inside the target have to run these first. Dependencies on other
+ * projects are returned separately, as they cannot be run that way.
+ */
+export function sameProjectDependencies(
+  node: ProjectGraphProjectNode,
+  target: string
+): { targets: string[]; other: string[] } {
+  const targets: string[] = [];
+  const other: string[] = [];
+  for (const dependency of node.data.targets?.[target]?.dependsOn ?? []) {
+    if (typeof dependency === 'string') {
+      (dependency.startsWith('^') ? other : targets).push(dependency);
+    } else if (dependency.projects || dependency.dependencies) {
+      other.push(dependency.target);
+    } else {
+      targets.push(dependency.target);
+    }
+  }
+  return { targets, other };
+}
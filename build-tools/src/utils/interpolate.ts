@@ -0,0 +1,42 @@
+const PLACEHOLDER_PATTERN = /\$\{([^}]+)\}/g;
+
+/**
+ * Replaces `${name}` placeholders with the given variables and `${env.NAME}`
+ * with environment variables. Unknown placeholders are an error rather than
+ * silently passed on to Docker.
+ */
+export function interpolate(
+  template: string,
+  variables: Record<string, string>
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => {
+    if (key.startsWith('env.')) {
+      return process.env[key.substring('env.'.length)] ?? '';
+    }
+    if (key in variables) {
+      return variables[key];
+    }
+    throw new Error(
+      `Unknown placeholder '${placeholder}' in '${template}'. Available placeholders: ${Object.keys(
+        variables
+      )
+        .map((name) => `\${${name}}`)
+        .join(', ')}, \${env.NAME}.`
+    );
+  });
+}
+
+/**
+ * Interpolates every value of a `key: template` map.
+ */
+export function interpolateValues(
+  values: Record<string, string> | undefined,
+  variables: Record<string, string>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(values ?? {}).map(([key, value]) => [
+      key,
+      interpolate(String(value), variables),
+    ])
+  );
+}
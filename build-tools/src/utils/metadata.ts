@@ -0,0 +1,60 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { VersionSource } from './version';
+
+import path = require('path');
+
+export interface BuildTimings {
+  /** Duration of the Nx build target. */
+  buildTargetMs: number;
+  /** Duration of the image build (and push). */
+  imageBuildMs: number;
+  totalMs: number;
+}
+
+/**
+ * What an image build produced. Written to `metadataFile` and returned from
+ * the executor, so later targets do not have to work out the tags again.
+ */
+export interface ImageMetadata {
+  appName: string;
+  version: string;
+  versionSource: VersionSource;
+  /** Image name without tag in the first repository, e.g. `ghcr.io/org/app`. */
+  imageName: string;
+  /** Fully qualified image references, one per tag. */
+  tags: string[];
+  /**
+   * Manifest (list) digest reported by buildx, also for loaded and local
+   * builds, so check `pushed` before pulling it from the registry.
+   */
+  digest: string | null;
+  platforms: string[];
+  pushed: boolean;
+  /** Whether the image already existed, so it was only tagged. */
+  cached: boolean;
+  gitSha: string;
+  builtAt: string;
+  timings: BuildTimings;
+  /** Absolute path of the SBOM file, when `sbomFile` is set. */
+  sbomFile?: string;
+}
+
+/**
+ * Reads the image digest from a `docker buildx build --metadata-file`,
+ * returning `null` when buildx did not write one (e.g. a local build).
+ */
+export function readBuildxDigest(metadataFile: string): string | null {
+  if (!existsSync(metadataFile)) {
+    return null;
+  }
+  const metadata = JSON.parse(readFileSync(metadataFile, 'utf-8'));
+  return metadata['containerimage.digest'] ?? null;
+}
+
+export function writeImageMetadata(
+  filePath: string,
+  metadata: ImageMetadata
+): void {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileSync(filePath, `${JSON.stringify(metadata, null, 2)}\n`);
+}
@@ -0,0 +1,66 @@
+import { renderNodeDockerfile } from './node-dockerfile';
+
+describe('node-dockerfile', () => {
+  describe('renderNodeDockerfile', () => {
+    it('should render a multi-stage Dockerfile with defaults', () => {
+      expect(renderNodeDockerfile('api', 'npm')).toBe(
+        `# Generated by @mschoenbo/nx-build-tools for api.
+# Add a Dockerfile to the project to customize the image.
+FROM node:20-alpine AS dependencies
+WORKDIR /app
+COPY package.json package-lock.json ./
+RUN npm ci --omit=dev
+
+FROM node:20-alpine
+ENV NODE_ENV=production
+WORKDIR /app
+COPY --from=dependencies /app/node_modules ./node_modules
+COPY . .
+USER node
+EXPOSE 3000
+ENTRYPOINT ["node","main.js"]
+`
+      );
+    });
+
+    it('should apply the options and the package manager', () => {
+      const dockerfile = renderNodeDockerfile('api', 'pnpm', {
+        baseImage: 'node:22-slim',
+        user: 'app',
+        port: 8080,
+        entrypoint: ['node', '--enable-source-maps', 'server.js'],
+      });
+
+      expect(dockerfile).toContain('FROM node:22-slim AS dependencies');
+      expect(dockerfile).toContain('COPY package.json pnpm-lock.yaml ./');
+      expect(dockerfile).toContain(
+        'RUN corepack enable && pnpm install --frozen-lockfile --prod'
+      );
+      expect(dockerfile).toContain('USER app');
+      expect(dockerfile).toContain('EXPOSE 8080');
+      expect(dockerfile).toContain(
+        'ENTRYPOINT ["node","--enable-source-maps","server.js"]'
+      );
+    });
+
+    it('should copy the build output from a directory of the context', () => {
+      const dockerfile = renderNodeDockerfile('api', 'yarn', {
+        source: 'dist/apps/api',
+      });
+
+      expect(dockerfile).toContain(
+        '# Scaffolded by @mschoenbo/nx-build-tools for api.'
+      );
+      expect(dockerfile).toContain(
+        'COPY dist/apps/api/package.json dist/apps/api/yarn.lock ./'
+      );
+      expect(dockerfile).toContain('COPY dist/apps/api/ .');
+    });
+
+    it('should reject package managers the Node image cannot run', () => {
+      expect(() => renderNodeDockerfile('api', 'bun')).toThrow(
+        'Cannot generate a Dockerfile for bun workspaces.'
+      );
+    });
+  });
+});
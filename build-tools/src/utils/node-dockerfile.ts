@@ -0,0 +1,107 @@
+import type { PackageManager } from '@nx/devkit';
+import { mkdirSync, writeFileSync } from 'fs';
+
+import path = require('path');
+
+export interface NodeDockerfileOptions {
+  /** Base image of both stages. */
+  baseImage?: string;
+  /** User the app runs as. */
+  user?: string;
+  port?: number;
+  /** Exec form entrypoint, relative to the build output. */
+  entrypoint?: string[];
+  /** Build output relative to the workspace root, read from the build target by default. */
+  outputPath?: string;
+  /**
+   * Build output relative to the build context, when the context is not the
+   * output itself, e.g. for a Dockerfile kept in the project.
+   */
+  source?: string;
+}
+
+const LOCKFILES: Record<PackageManager, string> = {
+  npm: 'package-lock.json',
+  yarn: 'yarn.lock',
+  pnpm: 'pnpm-lock.yaml',
+  bun: 'bun.lock',
+};
+
+const INSTALL_COMMANDS: Partial<Record<PackageManager, string>> = {
+  npm: 'npm ci --omit=dev',
+  yarn: 'yarn install --frozen-lockfile --production',
+  pnpm: 'corepack enable && pnpm install --frozen-lockfile --prod',
+};
+
+/**
+ * The pruned lockfile the build has to write next to its `package.json`,
+ * e.g. with `generatePackageJson` of the Nx webpack or esbuild executors.
+ */
+export function lockfileFor(packageManager: PackageManager): string {
+  return LOCKFILES[packageManager];
+}
+
+/**
+ * Renders a multi-stage Dockerfile for a Node app whose build output is the
+ * build context: production dependencies are installed from the pruned
+ * `package.json` and lockfile in one stage and copied next to the output in
+ * the final one.
+ */
+export function renderNodeDockerfile(
+  appName: string,
+  packageManager: PackageManager,
+  options: NodeDockerfileOptions = {}
+): string {
+  const {
+    baseImage = 'node:20-alpine',
+    user = 'node',
+    port = 3000,
+    entrypoint = ['node', 'main.js'],
+    source,
+  } = options;
+  const install = INSTALL_COMMANDS[packageManager];
+  if (!install) {
+    throw new Error(
+      `Cannot generate a Dockerfile for ${packageManager} workspaces. Add a Dockerfile to the project instead.`
+    );
+  }
+
+  const from = (file: string) =>
+    source ? path.posix.join(source, file) : file;
+  const header = source
+    ? `# Scaffolded by @mschoenbo/nx-build-tools for ${appName}.`
+    : `# Generated by @mschoenbo/nx-build-tools for ${appName}.
+# Add a Dockerfile to the project to customize the image.`;
+
+  return `${header}
+FROM ${baseImage} AS dependencies
+WORKDIR /app
+COPY ${from('package.json')} ${from(lockfileFor(packageManager))} ./
+RUN ${install}
+
+FROM ${baseImage}
+ENV NODE_ENV=production
+WORKDIR /app
+COPY --from=dependencies /app/node_modules ./node_modules
+COPY ${source ? `${source}/` : '.'} .
+USER ${user}
+EXPOSE ${port}
+ENTRYPOINT ${JSON.stringify(entrypoint)}
+`;
+}
+
+/**
+ * Where the generated Dockerfile of an app is written. It stays there after
+ * the build, so it can be inspected or copied into the project.
+ */
+export function generatedDockerfilePath(
+  workspaceRoot: string,
+  appName: string
+): string {
+  return path.join(workspaceRoot, 'tmp', 'dockerfiles', appName, 'Dockerfile');
+}
+
+export function writeGeneratedDockerfile(file: string, content: string): void {
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, content);
+}
@@ -0,0 +1,79 @@
+const OCI_PREFIX = 'org.opencontainers.image.';
+
+export interface PackageJsonMetadata {
+  name?: string;
+  version?: string;
+  description?: string;
+  license?: string;
+  repository?: string | { url?: string };
+}
+
+export interface OciLabelInput {
+  projectName: string;
+  version: string;
+  revision: string;
+  created: Date;
+  source?: string | null;
+  packageJson?: PackageJsonMetadata | null;
+}
+
+/**
+ * Turns `git@github.com:org/repo.git`, `git+https://github.com/org/repo.git`
+ * and friends into a browsable `https://` URL.
+ */
+export function normalizeRepositoryUrl(url: string): string {
+  const trimmed = url.trim().replace(/^git\+/, '');
+  const scpLike = trimmed.match(/^[\w.-]+@([\w.-]+):(.+)$/);
+  const normalized = scpLike
+    ? `https://${scpLike[1]}/${scpLike[2]}`
+    : trimmed
+        .replace(/^(ssh|git):\/\/([\w.-]+@)?/, 'https://')
+        .replace(/^https?:\/\/[^@/]+@/, 'https://');
+  return normalized.replace(/\.git$/, '').replace(/\/$/, '');
+}
+
+/**
+ * Reads the repository URL from a package.json `repository` field.
+ */
+export function repositoryFromPackageJson(
+  packageJson: PackageJsonMetadata | null | undefined
+): string | null {
+  const repository = packageJson?.repository;
+  const url = typeof repository === 'string' ? repository : repository?.url;
+  return url ? normalizeRepositoryUrl(url) : null;
+}
+
+/**
+ * Builds the standard `org.opencontainers.image.*` annotations plus an
+ * `nx.project` label. Overrides may use the short OCI name (`vendor`) or a
+ * full label key; an empty override removes the label.
+ */
+export function buildOciLabels(
+  input: OciLabelInput,
+  overrides: Record<string, string> = {}
+): Record<string, string> {
+  const source =
+    repositoryFromPackageJson(input.packageJson) ??
+    (input.source ? normalizeRepositoryUrl(input.source) : null);
+
+  const labels: Record<string, string | null | undefined> = {
+    [`${OCI_PREFIX}version`]: input.version,
+    [`${OCI_PREFIX}revision`]: input.revision,
+    [`${OCI_PREFIX}created`]: input.created.toISOString(),
+    [`${OCI_PREFIX}source`]: source,
+    [`${OCI_PREFIX}title`]: input.packageJson?.name ?? input.projectName,
+    [`${OCI_PREFIX}description`]: input.packageJson?.description,
+    [`${OCI_PREFIX}licenses`]: input.packageJson?.license,
+    'nx.project': input.projectName,
+  };
+
+  Object.entries(overrides).forEach(([name, value]) => {
+    labels[name.includes('.') ? name : `${OCI_PREFIX}${name}`] = value;
+  });
+
+  return Object.fromEntries(
+    Object.entries(labels).filter(
+      (entry): entry is [string, string] => !!entry[1]
+    )
+  );
+}
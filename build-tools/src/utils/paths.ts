@@ -0,0 +1,55 @@
+import { existsSync } from 'fs';
+
+import path = require('path');
+
+export interface PathContext {
+  workspaceRoot: string;
+  /** Project root relative to the workspace root, e.g. `apps/web`. */
+  projectRoot: string;
+}
+
+/**
+ * Resolves a path option. `{workspaceRoot}` and `{projectRoot}` are replaced
+ * by the absolute roots; anything still relative is taken relative to the
+ * project root, or the workspace root for options documented that way.
+ */
+export function resolvePath(
+  value: string,
+  ctx: PathContext,
+  relativeTo: 'project' | 'workspace' = 'project'
+): string {
+  const projectRoot = path.join(ctx.workspaceRoot, ctx.projectRoot);
+  const replaced = value
+    .replace(/\{workspaceRoot\}/g, ctx.workspaceRoot)
+    .replace(/\{projectRoot\}/g, projectRoot);
+  return path.resolve(
+    relativeTo === 'project' ? projectRoot : ctx.workspaceRoot,
+    replaced
+  );
+}
+
+export interface DockerfileLookup {
+  dockerfile: string | null;
+  searched: string[];
+}
+
+/**
+ * Finds the Dockerfile: the `dockerfile` option if set, else `Dockerfile` in
+ * the project root and then in the workspace root.
+ */
+export function findDockerfile(
+  dockerfile: string | undefined,
+  ctx: PathContext
+): DockerfileLookup {
+  const candidates = dockerfile
+    ? [resolvePath(dockerfile, ctx)]
+    : [
+        path.join(ctx.workspaceRoot, ctx.projectRoot, 'Dockerfile'),
+        path.join(ctx.workspaceRoot, 'Dockerfile'),
+      ];
+  const searched = [...new Set(candidates)];
+  return {
+    dockerfile: searched.find((candidate) => existsSync(candidate)) ?? null,
+    searched,
+  };
+}
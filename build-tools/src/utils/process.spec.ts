@@ -0,0 +1,106 @@
+import { formatCommand, runCommand } from './process';
+
+const node = (script: string): [string, string[]] => [
+  process.execPath,
+  ['-e', script],
+];
+
+describe('process', () => {
+  let stdoutSpy: jest.SpyInstance;
+  let stderrSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation();
+    stderrSpy = jest.spyOn(process.stderr, 'write').mockImplementation();
+  });
+
+  afterEach(() => {
+    stdoutSpy.mockRestore();
+    stderrSpy.mockRestore();
+  });
+
+  describe('formatCommand', () => {
+    it('should leave plain arguments unquoted', () => {
+      expect(
+        formatCommand('docker', [
+          'buildx',
+          'build',
+          '-t',
+          'ghcr.io/org/app:1.2',
+        ])
+      ).toBe('docker buildx build -t ghcr.io/org/app:1.2');
+    });
+
+    it('should quote arguments a shell would split or expand', () => {
+      expect(
+        formatCommand('docker', ['--label', 'title=My App', "it's", '$HOME'])
+      ).toBe(`docker --label 'title=My App' 'it'\\''s' '$HOME'`);
+    });
+  });
+
+  describe('runCommand', () => {
+    it('should stream output line by line and keep the last lines', async () => {
+      const result = await runCommand(
+        ...node(
+          `process.stdout.write('one\\ntw'); setTimeout(() => { process.stdout.write('o\\n'); console.error('three'); }, 20)`
+        )
+      );
+
+      expect(result).toEqual({
+        exitCode: 0,
+        signal: null,
+        timedOut: false,
+        lastLines: ['one', 'two', 'three'],
+      });
+      expect(stdoutSpy).toHaveBeenCalledWith('one\n');
+      expect(stdoutSpy).toHaveBeenCalledWith('two\n');
+      expect(stderrSpy).toHaveBeenCalledWith('three\n');
+    });
+
+    it('should keep characters that are split between chunks', async () => {
+      const result = await runCommand(
+        ...node(
+          `process.stdout.write(Buffer.from([0xe2, 0x82])); setTimeout(() => process.stdout.write(Buffer.from([0xac, 0x0a])), 20)`
+        )
+      );
+
+      expect(result.lastLines).toEqual(['€']);
+      expect(stdoutSpy).toHaveBeenCalledWith('€\n');
+    });
+
+    it('should transform lines and only keep them when quiet', async () => {
+      const result = await runCommand(
+        ...node(`console.log('token=secret'); process.exit(3)`),
+        { quiet: true, transform: (line) => line.replace('secret', '***') }
+      );
+
+      expect(result.exitCode).toBe(3);
+      expect(result.lastLines).toEqual(['token=***']);
+      expect(stdoutSpy).not.toHaveBeenCalled();
+    });
+
+    it('should keep only the configured number of lines', async () => {
+      const result = await runCommand(
+        ...node(`for (let i = 1; i <= 5; i++) console.log(i)`),
+        { tailLines: 2 }
+      );
+
+      expect(result.lastLines).toEqual(['4', '5']);
+    });
+
+    it('should stop commands that run too long', async () => {
+      const result = await runCommand(...node(`setTimeout(() => {}, 10000)`), {
+        timeoutMs: 100,
+      });
+
+      expect(result.timedOut).toBe(true);
+      expect(result.signal).toBe('SIGTERM');
+    });
+
+    it('should reject when the command cannot be started', async () => {
+      await expect(
+        runCommand('nx-build-tools-missing-command', [])
+      ).rejects.toThrow('ENOENT');
+    });
+  });
+});
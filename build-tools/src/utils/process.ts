@@ -0,0 +1,109 @@
+import { spawn } from 'child_process';
+
+/** Grace period between SIGTERM and SIGKILL when a command times out. */
+const KILL_GRACE_MS = 10_000;
+
+export interface RunCommandOptions {
+  env?: NodeJS.ProcessEnv;
+  /** Kill the command when it runs longer than this. */
+  timeoutMs?: number;
+  /** Do not print the output, only keep its last lines. */
+  quiet?: boolean;
+  /** Applied to every line before it is printed or kept, e.g. redaction. */
+  transform?: (line: string) => string;
+  /** How many of the last output lines to keep for error messages. */
+  tailLines?: number;
+}
+
+export interface RunCommandResult {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  /** The last lines of stdout and stderr, interleaved as they arrived. */
+  lastLines: string[];
+}
+
+/**
+ * Quotes an argument for display, so a logged command can be copied into a
+ * POSIX shell.
+ */
+function quoteArg(arg: string): string {
+  return /^[A-Za-z0-9_/.:=,@%+-]+$/.test(arg)
+    ? arg
+    : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+export function formatCommand(command: string, args: string[]): string {
+  return [command, ...args].map(quoteArg).join(' ');
+}
+
+/**
+ * Runs a command without a shell and streams its output line by line.
+ * Resolves with the exit status instead of rejecting on failure; rejects only
+ * when the command cannot be started at all.
+ */
+export function runCommand(
+  command: string,
+  args: string[],
+  options: RunCommandOptions = {}
+): Promise<RunCommandResult> {
+  const { env, timeoutMs, quiet, tailLines = 20 } = options;
+  const transform = options.transform ?? ((line: string) => line);
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { env: env ?? process.env });
+    const lastLines: string[] = [];
+    let timedOut = false;
+
+    const collect = (
+      stream: NodeJS.ReadableStream,
+      write: (line: string) => void
+    ) => {
+      // Decode across chunks, so characters split between them stay intact.
+      stream.setEncoding('utf8');
+      let pending = '';
+      const emit = (line: string) => {
+        const output = transform(line);
+        lastLines.push(output);
+        if (lastLines.length > tailLines) {
+          lastLines.shift();
+        }
+        if (!quiet) {
+          write(output);
+        }
+      };
+      stream.on('data', (data) => {
+        const lines = (pending + data).split(/\r?\n/);
+        pending = lines.pop();
+        lines.forEach(emit);
+      });
+      stream.on('end', () => {
+        if (pending) {
+          emit(pending);
+        }
+      });
+    };
+    collect(child.stdout, (line) => process.stdout.write(`${line}\n`));
+    collect(child.stderr, (line) => process.stderr.write(`${line}\n`));
+
+    let killTimer: NodeJS.Timeout | undefined;
+    const timeoutTimer = timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          killTimer = setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_MS);
+          child.kill('SIGTERM');
+        }, timeoutMs)
+      : undefined;
+
+    child.on('error', (error) => {
+      clearTimeout(timeoutTimer);
+      clearTimeout(killTimer);
+      reject(error);
+    });
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timeoutTimer);
+      clearTimeout(killTimer);
+      resolve({ exitCode, signal, timedOut, lastLines });
+    });
+  });
+}
@@ -0,0 +1,41 @@
+const SENSITIVE_NAME_PATTERN = /token|secret|password|passwd|credential|key/i;
+const REDACTED = '***';
+
+/**
+ * Values shorter than this are not redacted, since masking e.g. `1` would
+ * mangle the whole output without protecting anything.
+ */
+const MIN_SECRET_LENGTH = 3;
+
+export interface Redactor {
+  add(value: string | null | undefined): void;
+  redact(text: string): string;
+}
+
+/**
+ * Whether a build arg or variable name suggests that its value is sensitive.
+ */
+export function isSensitiveName(name: string): boolean {
+  return SENSITIVE_NAME_PATTERN.test(name);
+}
+
+/**
+ * Collects secret values and masks them in any text before it is logged.
+ */
+export function createRedactor(): Redactor {
+  const secrets = new Set<string>();
+
+  return {
+    add(value) {
+      if (value && value.length >= MIN_SECRET_LENGTH) {
+        secrets.add(value);
+      }
+    },
+    redact(text) {
+      // Longest first, so a secret containing another one is masked whole.
+      return [...secrets]
+        .sort((a, b) => b.length - a.length)
+        .reduce((result, secret) => result.split(secret).join(REDACTED), text);
+    },
+  };
+}
@@ -0,0 +1,234 @@
+import { spawn } from 'child_process';
+import {
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { fakeProcess } from '../testing/fake-process';
+import {
+  createDockerConfigDir,
+  dockerLogin,
+  isAuthError,
+  resolveCredentials,
+  writeRegistryAuth,
+} from './registry-auth';
+
+jest.mock('child_process', () => ({
+  spawn: jest.fn(),
+}));
+
+const mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
+
+describe('registry-auth', () => {
+  const originalEnv = process.env;
+  let dirs: string[];
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    dirs = [];
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    dirs.forEach((dir) => rmSync(dir, { recursive: true, force: true }));
+  });
+
+  const tempDir = () => {
+    const dir = mkdtempSync(join(tmpdir(), 'registry-auth-'));
+    dirs.push(dir);
+    return dir;
+  };
+
+  describe('resolveCredentials', () => {
+    it('should read usernames and passwords from the environment', () => {
+      process.env.GHCR_USER = 'octocat';
+      process.env.GHCR_TOKEN = 'ghp_secret';
+
+      expect(
+        resolveCredentials([
+          {
+            registry: 'ghcr.io',
+            usernameEnv: 'GHCR_USER',
+            passwordEnv: 'GHCR_TOKEN',
+          },
+        ])
+      ).toEqual([
+        { registry: 'ghcr.io', username: 'octocat', password: 'ghp_secret' },
+      ]);
+    });
+
+    it('should name the missing environment variable', () => {
+      delete process.env.ECR_PASSWORD;
+
+      expect(() =>
+        resolveCredentials([
+          { registry: 'ecr', username: 'AWS', passwordEnv: 'ECR_PASSWORD' },
+        ])
+      ).toThrow(
+        "Environment variable ECR_PASSWORD with the password for 'ecr' is not set."
+      );
+    });
+  });
+
+  describe('isAuthError', () => {
+    it('should recognise registry authentication failures', () => {
+      expect(
+        isAuthError('failed to push: 401 Unauthorized: authentication required')
+      ).toBe(true);
+      expect(isAuthError('failed to solve: process "/bin/sh" failed')).toBe(
+        false
+      );
+    });
+  });
+
+  describe('createDockerConfigDir', () => {
+    it('should copy the given config and link buildx state', () => {
+      const current = tempDir();
+      mkdirSync(join(current, 'buildx'));
+      process.env.DOCKER_CONFIG = current;
+      const source = tempDir();
+      writeFileSync(join(source, 'config.json'), '{"auths":{}}');
+
+      const dir = createDockerConfigDir(source);
+      dirs.push(dir);
+
+      expect(readFileSync(join(dir, 'config.json'), 'utf-8')).toBe(
+        '{"auths":{}}'
+      );
+      expect(lstatSync(join(dir, 'buildx')).isSymbolicLink()).toBe(true);
+      expect(existsSync(join(dir, 'cli-plugins'))).toBe(false);
+    });
+
+    it('should start from the current config and link its contexts', () => {
+      const current = tempDir();
+      mkdirSync(join(current, 'contexts'));
+      writeFileSync(
+        join(current, 'config.json'),
+        '{"credHelpers":{"123.dkr.ecr.eu-west-1.amazonaws.com":"ecr-login"},"currentContext":"remote"}'
+      );
+      process.env.DOCKER_CONFIG = current;
+
+      const dir = createDockerConfigDir(undefined);
+      dirs.push(dir);
+
+      expect(readFileSync(join(dir, 'config.json'), 'utf-8')).toBe(
+        readFileSync(join(current, 'config.json'), 'utf-8')
+      );
+      expect(lstatSync(join(dir, 'contexts')).isSymbolicLink()).toBe(true);
+    });
+
+    it('should leave out the credential stores of the registries logged in to', () => {
+      const current = tempDir();
+      writeFileSync(
+        join(current, 'config.json'),
+        JSON.stringify({
+          auths: { 'docker.io': { auth: 'dXNlcjpwYXNz' } },
+          credsStore: 'desktop',
+          credHelpers: { 'ghcr.io': 'gh', 'gcr.io': 'gcloud' },
+        })
+      );
+      process.env.DOCKER_CONFIG = current;
+
+      const dir = createDockerConfigDir(undefined, ['ghcr.io']);
+      dirs.push(dir);
+
+      expect(
+        JSON.parse(readFileSync(join(dir, 'config.json'), 'utf-8'))
+      ).toEqual({
+        auths: { 'docker.io': { auth: 'dXNlcjpwYXNz' } },
+        credHelpers: { 'gcr.io': 'gcloud' },
+      });
+    });
+
+    it('should fail when the config does not exist', () => {
+      expect(() => createDockerConfigDir('/does/not/exist.json')).toThrow(
+        'Docker config /does/not/exist.json does not exist.'
+      );
+    });
+  });
+
+  describe('dockerLogin', () => {
+    const credentials = {
+      registry: 'localhost:5000',
+      username: 'ci',
+      password: 'hunter22',
+    };
+
+    it('should pass the password on stdin', async () => {
+      const child = fakeProcess();
+      mockSpawn.mockReturnValue(child);
+
+      await dockerLogin(credentials, '/tmp/docker-config-x');
+
+      expect(mockSpawn).toHaveBeenCalledWith(
+        'docker',
+        ['login', 'localhost:5000', '--username', 'ci', '--password-stdin'],
+        {
+          env: expect.objectContaining({
+            DOCKER_CONFIG: '/tmp/docker-config-x',
+          }),
+        }
+      );
+      expect(child.stdin.end).toHaveBeenCalledWith('hunter22');
+    });
+
+    it('should log in with podman using the same auth file', async () => {
+      mockSpawn.mockReturnValue(fakeProcess());
+
+      await dockerLogin(credentials, '/tmp/docker-config-x', 'podman');
+
+      expect(mockSpawn).toHaveBeenCalledWith('podman', expect.any(Array), {
+        env: expect.objectContaining({
+          REGISTRY_AUTH_FILE: join('/tmp/docker-config-x', 'config.json'),
+        }),
+      });
+    });
+
+    it('should reject with the docker error output', async () => {
+      mockSpawn.mockReturnValue(
+        fakeProcess({
+          exitCode: 1,
+          output: 'Error response from daemon: unauthorized\n',
+        })
+      );
+
+      await expect(dockerLogin(credentials, '/tmp/x')).rejects.toThrow(
+        'Error response from daemon: unauthorized'
+      );
+    });
+  });
+
+  describe('writeRegistryAuth', () => {
+    it('should add the credentials to the existing auths', () => {
+      const dir = tempDir();
+      writeFileSync(
+        join(dir, 'config.json'),
+        '{"auths":{"ghcr.io":{"auth":"b2xk"}},"credHelpers":{}}'
+      );
+
+      writeRegistryAuth(
+        [{ registry: 'localhost:5000', username: 'ci', password: 'hunter22' }],
+        dir
+      );
+
+      expect(
+        JSON.parse(readFileSync(join(dir, 'config.json'), 'utf-8'))
+      ).toEqual({
+        auths: {
+          'ghcr.io': { auth: 'b2xk' },
+          'localhost:5000': {
+            auth: Buffer.from('ci:hunter22').toString('base64'),
+          },
+        },
+        credHelpers: {},
+      });
+    });
+  });
+});
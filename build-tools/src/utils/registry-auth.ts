@@ -0,0 +1,189 @@
+import { spawn } from 'child_process';
+import {
+  copyFileSync,
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  statSync,
+  symlinkSync,
+  writeFileSync,
+} from 'fs';
+import { homedir, tmpdir } from 'os';
+
+import path = require('path');
+
+export interface RegistryCredentials {
+  /** Registry host, e.g. `ghcr.io` or `localhost:5000`. */
+  registry: string;
+  username?: string;
+  usernameEnv?: string;
+  passwordEnv: string;
+}
+
+export interface ResolvedCredentials {
+  registry: string;
+  username: string;
+  password: string;
+}
+
+const AUTH_ERROR_PATTERN =
+  /unauthorized|authentication required|no basic auth credentials|denied: requested access|insufficient_scope|401 Unauthorized/i;
+
+/**
+ * Whether Docker output says that the registry rejected the credentials.
+ */
+export function isAuthError(output: string): boolean {
+  return AUTH_ERROR_PATTERN.test(output);
+}
+
+/**
+ * Reads usernames and passwords from the environment.
+ *
+ * @throws When a configured environment variable is not set.
+ */
+export function resolveCredentials(
+  credentials: RegistryCredentials[]
+): ResolvedCredentials[] {
+  return credentials.map(({ registry, username, usernameEnv, passwordEnv }) => {
+    const user = usernameEnv ? process.env[usernameEnv] : username;
+    if (!user) {
+      throw new Error(
+        usernameEnv
+          ? `Environment variable ${usernameEnv} with the username for '${registry}' is not set.`
+          : `Registry '${registry}' needs 'username' or 'usernameEnv'.`
+      );
+    }
+    const password = process.env[passwordEnv];
+    if (!password) {
+      throw new Error(
+        `Environment variable ${passwordEnv} with the password for '${registry}' is not set.`
+      );
+    }
+    return { registry, username: user, password };
+  });
+}
+
+/**
+ * Creates a temporary Docker config directory, so logins do not touch the
+ * user's `~/.docker/config.json` and disappear with the directory. The given
+ * config (a directory or a `config.json`), or else the current one, is copied
+ * in first, keeping its credential helpers, logins and context.
+ *
+ * The `loginRegistries` are logged in to afterwards. Their credential helpers
+ * and the credential store are left out, so those logins stay in the
+ * temporary `config.json` instead of the user's keychain.
+ *
+ * buildx keeps its builders, the CLI its plugins and contexts in the config
+ * directory too, so those are linked from the current one.
+ */
+export function createDockerConfigDir(
+  dockerConfig: string | undefined,
+  loginRegistries: string[] = []
+): string {
+  const currentDir =
+    process.env.DOCKER_CONFIG || path.join(homedir(), '.docker');
+  let configFile: string | null = null;
+  if (dockerConfig) {
+    configFile =
+      existsSync(dockerConfig) && statSync(dockerConfig).isDirectory()
+        ? path.join(dockerConfig, 'config.json')
+        : dockerConfig;
+    if (!existsSync(configFile)) {
+      throw new Error(`Docker config ${configFile} does not exist.`);
+    }
+  } else if (existsSync(path.join(currentDir, 'config.json'))) {
+    configFile = path.join(currentDir, 'config.json');
+  }
+  const dir = mkdtempSync(path.join(tmpdir(), 'docker-config-'));
+  if (configFile && loginRegistries.length > 0) {
+    const config = JSON.parse(readFileSync(configFile, 'utf-8'));
+    loginRegistries.forEach(
+      (registry) => delete config.credHelpers?.[registry]
+    );
+    delete config.credsStore;
+    writeFileSync(
+      path.join(dir, 'config.json'),
+      `${JSON.stringify(config, null, 2)}\n`,
+      { mode: 0o600 }
+    );
+  } else if (configFile) {
+    copyFileSync(configFile, path.join(dir, 'config.json'));
+  }
+  for (const entry of ['buildx', 'cli-plugins', 'contexts']) {
+    if (existsSync(path.join(currentDir, entry))) {
+      symlinkSync(path.join(currentDir, entry), path.join(dir, entry));
+    }
+  }
+  return dir;
+}
+
+/**
+ * Environment that points Docker (and kaniko) at the temporary config
+ * directory. Podman and Buildah read and write the `config.json` in it as
+ * their auth file.
+ */
+export function dockerConfigEnv(dockerConfigDir: string): NodeJS.ProcessEnv {
+  return {
+    ...process.env,
+    DOCKER_CONFIG: dockerConfigDir,
+    REGISTRY_AUTH_FILE: path.join(dockerConfigDir, 'config.json'),
+  };
+}
+
+/**
+ * Runs `docker login` (or `podman`/`buildah login`, which take the same
+ * flags) with the password on stdin, never on the command line.
+ */
+export function dockerLogin(
+  credentials: ResolvedCredentials,
+  dockerConfigDir: string,
+  command = 'docker'
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(
+      command,
+      [
+        'login',
+        credentials.registry,
+        '--username',
+        credentials.username,
+        '--password-stdin',
+      ],
+      { env: dockerConfigEnv(dockerConfigDir) }
+    );
+    let stderr = '';
+    child.stderr.on('data', (data) => (stderr += data));
+    child.on('error', reject);
+    child.on('close', (code) =>
+      code === 0
+        ? resolve()
+        : reject(
+            new Error(stderr.trim() || `${command} login exited with ${code}`)
+          )
+    );
+    child.stdin.end(credentials.password);
+  });
+}
+
+/**
+ * Adds the credentials to the `auths` of the config in the temporary
+ * directory, for engines without a login command such as kaniko.
+ */
+export function writeRegistryAuth(
+  credentials: ResolvedCredentials[],
+  dockerConfigDir: string
+): void {
+  const configFile = path.join(dockerConfigDir, 'config.json');
+  const config = existsSync(configFile)
+    ? JSON.parse(readFileSync(configFile, 'utf-8'))
+    : {};
+  config.auths = { ...config.auths };
+  credentials.forEach(({ registry, username, password }) => {
+    config.auths[registry] = {
+      auth: Buffer.from(`${username}:${password}`).toString('base64'),
+    };
+  });
+  writeFileSync(configFile, `${JSON.stringify(config, null, 2)}\n`, {
+    mode: 0o600,
+  });
+}
@@ -0,0 +1,90 @@
+import { NxJsonConfiguration, ProjectConfiguration } from '@nx/devkit';
+
+const PROJECT_NAME_PLACEHOLDER = '{projectName}';
+const VERSION_PLACEHOLDER = '{version}';
+
+/**
+ * `project.json` may carry a `releaseTagPattern` that the devkit types do
+ * not declare, so it is read through this looser shape.
+ */
+type ProjectReleaseConfig = { release?: { releaseTagPattern?: string } };
+
+/**
+ * Picks the release tag pattern for a project, in order of precedence:
+ * the explicit option, the project's release config, the release group in
+ * `nx.json` that lists the project, the `nx.json` release config, and finally
+ * the legacy `{projectName}/<tagPrefix>{version}` pattern.
+ */
+export function getReleaseTagPattern(
+  projectName: string,
+  options: { gitTagPattern?: string; tagPrefix?: string },
+  projectConfig?: ProjectConfiguration,
+  nxJson?: NxJsonConfiguration
+): string {
+  if (options.gitTagPattern) {
+    return options.gitTagPattern;
+  }
+
+  const projectPattern = (projectConfig as ProjectReleaseConfig | undefined)
+    ?.release?.releaseTagPattern;
+  if (projectPattern) {
+    return projectPattern;
+  }
+
+  const groups = nxJson?.release?.groups ?? {};
+  const group = Object.values(groups).find((g) =>
+    ([] as string[]).concat(g.projects).includes(projectName)
+  );
+  if (group?.releaseTagPattern) {
+    return group.releaseTagPattern;
+  }
+
+  if (nxJson?.release?.releaseTagPattern) {
+    return nxJson.release.releaseTagPattern;
+  }
+
+  return `${PROJECT_NAME_PLACEHOLDER}/${
+    options.tagPrefix || 'v'
+  }${VERSION_PLACEHOLDER}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Splits a pattern into literal text with `{projectName}` filled in, around
+ * the `{version}` placeholder.
+ */
+function splitPattern(pattern: string, projectName: string): string[] {
+  if (!pattern.includes(VERSION_PLACEHOLDER)) {
+    throw new Error(
+      `Release tag pattern '${pattern}' must contain ${VERSION_PLACEHOLDER}.`
+    );
+  }
+  return pattern
+    .split(VERSION_PLACEHOLDER)
+    .map((part) => part.split(PROJECT_NAME_PLACEHOLDER).join(projectName));
+}
+
+/**
+ * Builds a RegExp that matches release tags of the project and captures the
+ * version. Project names are matched literally, so scoped names like
+ * `@org/api` work as well.
+ */
+export function releaseTagRegExp(pattern: string, projectName: string): RegExp {
+  const parts = splitPattern(pattern, projectName).map(escapeRegExp);
+  return new RegExp(`^${parts.join('(.+)')}$`);
+}
+
+/**
+ * Builds a glob for `git describe --match` / `git tag --list` that matches
+ * release tags of the project.
+ */
+export function releaseTagGlob(pattern: string, projectName: string): string {
+  return splitPattern(pattern, projectName).map(escapeGlob).join('*');
+}
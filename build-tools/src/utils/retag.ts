@@ -0,0 +1,145 @@
+import {
+  formatCommand,
+  runCommand,
+  RunCommandOptions,
+  RunCommandResult,
+} from './process';
+
+export type RetagTool = 'imagetools' | 'crane';
+
+export interface RetagCommand {
+  command: string;
+  args: string[];
+}
+
+export interface ExistingImage {
+  digest: string;
+  /** The tags that did not point at the image yet. */
+  addedTags: string[];
+}
+
+/**
+ * Commands that point the `destinations` at the manifest (list) of `source`
+ * in the registry, without pulling the image. crane tags within the source
+ * repository and copies to the others.
+ */
+export function retagCommands(
+  source: string,
+  destinations: string[],
+  tool: RetagTool
+): RetagCommand[] {
+  if (tool === 'crane') {
+    const repository = source.substring(0, source.lastIndexOf(':'));
+    return destinations.map((destination) =>
+      destination.startsWith(`${repository}:`)
+        ? {
+            command: 'crane',
+            args: ['tag', source, destination.substring(repository.length + 1)],
+          }
+        : { command: 'crane', args: ['copy', source, destination] }
+    );
+  }
+  return [
+    {
+      command: 'docker',
+      args: [
+        'buildx',
+        'imagetools',
+        'create',
+        ...destinations.flatMap((destination) => ['--tag', destination]),
+        source,
+      ],
+    },
+  ];
+}
+
+/**
+ * Command that prints only the digest of an image in the registry, so the
+ * output stays one line for indexes with many platforms and attestations. It
+ * fails when the image does not exist.
+ */
+export function digestCommand(image: string, tool: RetagTool): RetagCommand {
+  return tool === 'crane'
+    ? { command: 'crane', args: ['digest', image] }
+    : {
+        command: 'docker',
+        args: [
+          'buildx',
+          'imagetools',
+          'inspect',
+          '--format',
+          '{{.Manifest.Digest}}',
+          image,
+        ],
+      };
+}
+
+/**
+ * Reads the digest from the output of the `digestCommand`, ignoring any
+ * warnings printed next to it.
+ */
+export function parseDigest(output: string): string | null {
+  return output.match(/^sha256:[a-f0-9]{64}$/m)?.[0] ?? null;
+}
+
+/**
+ * Looks up `source` in the registry and, when it exists, points the `tags`
+ * that do not have its digest yet at it. Resolves with null when `source` is
+ * not in the registry, and rejects when the tool cannot run or a tag cannot be
+ * added.
+ */
+export async function tagExistingImage(
+  source: string,
+  tags: string[],
+  tool: RetagTool,
+  options: Pick<RunCommandOptions, 'env' | 'transform'>
+): Promise<ExistingImage | null> {
+  const run = async (
+    { command, args }: RetagCommand,
+    quiet: boolean
+  ): Promise<RunCommandResult> => {
+    try {
+      return await runCommand(command, args, { ...options, quiet });
+    } catch (error) {
+      throw new Error(
+        `${command} could not run: ${error}. Ensure ${
+          tool === 'crane' ? 'crane' : 'Docker'
+        } is installed and on the PATH.`
+      );
+    }
+  };
+  const lookupDigest = async (image: string) => {
+    const result = await run(digestCommand(image, tool), true);
+    return result.exitCode === 0
+      ? parseDigest(result.lastLines.join('\n'))
+      : null;
+  };
+
+  const digest = await lookupDigest(source);
+  if (!digest) {
+    return null;
+  }
+  const addedTags: string[] = [];
+  for (const tag of tags) {
+    if (tag !== source && (await lookupDigest(tag)) !== digest) {
+      addedTags.push(tag);
+    }
+  }
+  if (addedTags.length > 0) {
+    for (const command of retagCommands(source, addedTags, tool)) {
+      console.log(
+        `\nExecuting tag command:\n${formatCommand(
+          command.command,
+          command.args
+        )}\n`
+      );
+      const result = await run(command, false);
+      if (result.exitCode !== 0) {
+        throw new Error(
+          `adding the tags failed. Last output:\n${result.lastLines.join('\n')}`
+        );
+      }
+    }
+  }
+  return { digest, addedTags };
+}
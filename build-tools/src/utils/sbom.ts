@@ -0,0 +1,26 @@
+import type { EngineName } from './engine';
+
+export type SbomFormat = 'spdx' | 'cyclonedx';
+
+/**
+ * The syft command that writes the SBOM of a built image as SPDX or
+ * CycloneDX JSON. Pushed images are read from the registry, everything else
+ * from the local image store of the engine.
+ */
+export function sbomCommand(
+  image: string,
+  engine: EngineName,
+  pushed: boolean,
+  format: SbomFormat,
+  file: string
+): { command: string; args: string[] } {
+  const source = pushed
+    ? 'registry'
+    : engine === 'podman' || engine === 'buildah'
+    ? 'podman'
+    : 'docker';
+  return {
+    command: 'syft',
+    args: [`${source}:${image}`, '-o', `${format}-json=${file}`],
+  };
+}
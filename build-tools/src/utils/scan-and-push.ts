@@ -0,0 +1,139 @@
+import { mkdirSync, rmSync } from 'fs';
+import type { ContainerEngine, EngineCommand, ImageBuild } from './engine';
+import {
+  blockingVulnerabilities,
+  readVulnerabilities,
+  scanCommands,
+  ScanCommand,
+  ScannerName,
+  ScanOptions,
+  ScanReports,
+  scanReports,
+  Severity,
+  summarizeVulnerabilities,
+  Vulnerability,
+} from './scanner';
+
+export interface ScanPlan {
+  /** Loads the image for the scan, without attestations the store cannot hold. */
+  build: ImageBuild;
+  scanner: ScannerName;
+  displayName: string;
+  failOnSeverity: Severity | 'none';
+  reportDir: string;
+  reports: ScanReports;
+  commands: ScanCommand[];
+}
+
+/** Runs the commands of the executor, reporting why one failed. */
+export interface ScanAndPushRunner {
+  engine(commands: EngineCommand[]): Promise<boolean>;
+  scan(command: ScanCommand): Promise<boolean>;
+}
+
+export function createScanPlan(
+  build: ImageBuild,
+  image: string,
+  engine: ContainerEngine,
+  options: ScanOptions & { reportDir: string }
+): ScanPlan {
+  const scanner = options.scanner ?? 'trivy';
+  return {
+    build: {
+      ...build,
+      push: false,
+      load: true,
+      sbom: false,
+      provenance: undefined,
+    },
+    scanner,
+    displayName: scanner === 'grype' ? 'Grype' : 'Trivy',
+    failOnSeverity: options.failOnSeverity ?? 'high',
+    reportDir: options.reportDir,
+    reports: scanReports(options.reportDir),
+    commands: scanCommands(image, engine.name, options),
+  };
+}
+
+/**
+ * Reads the JSON report and reports the vulnerabilities that block the image.
+ * Returns whether the image passed.
+ */
+function checkScanReport(
+  plan: ScanPlan,
+  appName: string,
+  push: boolean
+): boolean {
+  let vulnerabilities: Vulnerability[];
+  try {
+    vulnerabilities = readVulnerabilities(plan.scanner, plan.reports.json);
+  } catch (error) {
+    console.error(
+      `\nError: Could not read the scan report ${plan.reports.json}: ${error}`
+    );
+    return false;
+  }
+  const blocking = blockingVulnerabilities(
+    vulnerabilities,
+    plan.failOnSeverity
+  );
+  const reportList = `Reports: ${plan.reports.json}, ${plan.reports.sarif}`;
+  if (blocking.length > 0) {
+    console.error(
+      `\nError: The image of '${appName}' has ${
+        blocking.length
+      } vulnerabilities of severity '${
+        plan.failOnSeverity
+      }' or higher (${summarizeVulnerabilities(blocking)})${
+        push ? ', not pushing it' : ''
+      }:\n${blocking
+        .slice(0, 20)
+        .map(
+          ({ id, packageName, severity }) =>
+            `  - ${id} in ${packageName} (${severity})`
+        )
+        .join('\n')}${
+        blocking.length > 20 ? `\n  ... and ${blocking.length - 20} more` : ''
+      }\n${reportList}`
+    );
+    return false;
+  }
+  console.log(
+    `Scan of '${appName}' passed${
+      vulnerabilities.length > 0
+        ? ` (${summarizeVulnerabilities(vulnerabilities)})`
+        : ''
+    }. ${reportList}`
+  );
+  return true;
+}
+
+/**
+ * Builds the image into the local image store first, so nothing is pushed
+ * before the scan passed, then scans it and pushes `build` when it is pushed.
+ * Returns whether every step succeeded.
+ */
+export async function scanAndPush(
+  engine: ContainerEngine,
+  plan: ScanPlan,
+  build: ImageBuild,
+  digestFile: string,
+  run: ScanAndPushRunner,
+  appName: string
+): Promise<boolean> {
+  if (!(await run.engine(engine.commands(plan.build, digestFile)))) {
+    return false;
+  }
+  mkdirSync(plan.reportDir, { recursive: true });
+  for (const command of plan.commands) {
+    if (!(await run.scan(command))) {
+      return false;
+    }
+  }
+  if (!checkScanReport(plan, appName, !!build.push)) {
+    return false;
+  }
+  // The digest of the loaded image is not the one of the pushed image.
+  rmSync(digestFile, { force: true });
+  return !build.push || run.engine(engine.pushCommands(build, digestFile));
+}
@@ -0,0 +1,171 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import {
+  blockingVulnerabilities,
+  readVulnerabilities,
+  scanCommands,
+  summarizeVulnerabilities,
+  Vulnerability,
+} from './scanner';
+
+describe('scanner', () => {
+  describe('scanCommands', () => {
+    it('should write a Trivy JSON report and convert it to SARIF', () => {
+      expect(
+        scanCommands('ghcr.io/org/web:1.2.3', 'docker', {
+          reportDir: '/ws/dist/apps/web/scan',
+          ignoreFile: '/ws/.trivyignore',
+          offline: true,
+        })
+      ).toEqual([
+        {
+          command: 'trivy',
+          args: [
+            'image',
+            '--format',
+            'json',
+            '--output',
+            '/ws/dist/apps/web/scan/report.json',
+            '--ignorefile',
+            '/ws/.trivyignore',
+            '--skip-db-update',
+            'ghcr.io/org/web:1.2.3',
+          ],
+        },
+        {
+          command: 'trivy',
+          args: [
+            'convert',
+            '--format',
+            'sarif',
+            '--output',
+            '/ws/dist/apps/web/scan/report.sarif',
+            '/ws/dist/apps/web/scan/report.json',
+          ],
+        },
+      ]);
+    });
+
+    it('should read podman images from the containers storage', () => {
+      expect(
+        scanCommands('ghcr.io/org/web:1.2.3', 'buildah', {
+          reportDir: '/scan',
+        })[0].args
+      ).toContain('podman');
+    });
+
+    it('should write both reports in one Grype run', () => {
+      expect(
+        scanCommands('ghcr.io/org/web:1.2.3', 'docker', {
+          scanner: 'grype',
+          reportDir: '/scan',
+          ignoreFile: '/ws/.grype.yaml',
+          offline: true,
+        })
+      ).toEqual([
+        {
+          command: 'grype',
+          args: [
+            'docker:ghcr.io/org/web:1.2.3',
+            '-o',
+            'json=/scan/report.json',
+            '-o',
+            'sarif=/scan/report.sarif',
+            '--config',
+            '/ws/.grype.yaml',
+          ],
+          env: { GRYPE_DB_AUTO_UPDATE: 'false' },
+        },
+      ]);
+    });
+  });
+
+  describe('readVulnerabilities', () => {
+    let reportDir: string;
+
+    beforeEach(() => {
+      reportDir = mkdtempSync(join(tmpdir(), 'scanner-'));
+    });
+
+    afterEach(() => {
+      rmSync(reportDir, { recursive: true, force: true });
+    });
+
+    const writeReport = (report: unknown) => {
+      const file = join(reportDir, 'report.json');
+      writeFileSync(file, JSON.stringify(report));
+      return file;
+    };
+
+    it('should read the vulnerabilities of all Trivy results', () => {
+      const report = writeReport({
+        Results: [
+          { Target: 'alpine', Vulnerabilities: [] },
+          { Target: 'node-pkg' },
+          {
+            Target: 'app/package-lock.json',
+            Vulnerabilities: [
+              {
+                VulnerabilityID: 'CVE-2024-0001',
+                PkgName: 'express',
+                Severity: 'HIGH',
+              },
+              {
+                VulnerabilityID: 'CVE-2024-0002',
+                PkgName: 'qs',
+                Severity: 'UNKNOWN',
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(readVulnerabilities('trivy', report)).toEqual([
+        { id: 'CVE-2024-0001', packageName: 'express', severity: 'high' },
+        { id: 'CVE-2024-0002', packageName: 'qs', severity: 'unknown' },
+      ]);
+    });
+
+    it('should read Grype matches and treat negligible as low', () => {
+      const report = writeReport({
+        matches: [
+          {
+            vulnerability: { id: 'GHSA-1234', severity: 'Negligible' },
+            artifact: { name: 'busybox' },
+          },
+        ],
+      });
+
+      expect(readVulnerabilities('grype', report)).toEqual([
+        { id: 'GHSA-1234', packageName: 'busybox', severity: 'low' },
+      ]);
+    });
+  });
+
+  describe('blockingVulnerabilities', () => {
+    const vulnerabilities: Vulnerability[] = [
+      { id: 'CVE-1', packageName: 'a', severity: 'critical' },
+      { id: 'CVE-2', packageName: 'b', severity: 'high' },
+      { id: 'CVE-3', packageName: 'c', severity: 'medium' },
+      { id: 'CVE-4', packageName: 'd', severity: 'unknown' },
+    ];
+
+    it('should return vulnerabilities at or above the severity', () => {
+      expect(
+        blockingVulnerabilities(vulnerabilities, 'high').map(({ id }) => id)
+      ).toEqual(['CVE-1', 'CVE-2']);
+    });
+
+    it('should never block with none', () => {
+      expect(blockingVulnerabilities(vulnerabilities, 'none')).toEqual([]);
+    });
+
+    it('should summarize the counts by severity', () => {
+      expect(summarizeVulnerabilities(vulnerabilities)).toBe(
+        'critical: 1, high: 1, medium: 1, unknown: 1'
+      );
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { readFileSync } from 'fs';
+import type { EngineName } from './engine';
+
+import path = require('path');
+
+export type ScannerName = 'trivy' | 'grype';
+
+export type Severity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface ScanOptions {
+  scanner?: ScannerName;
+  /** Lowest severity that fails the build, or `none` to only report. */
+  failOnSeverity?: Severity | 'none';
+  /** `.trivyignore` for Trivy, a config with ignore rules for Grype. */
+  ignoreFile?: string;
+  /** Directory for the JSON and SARIF reports. */
+  reportDir?: string;
+  /** Use the scanner's existing vulnerability DB instead of updating it. */
+  offline?: boolean;
+}
+
+export interface ScanCommand {
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+}
+
+export interface ScanReports {
+  json: string;
+  sarif: string;
+}
+
+export interface Vulnerability {
+  id: string;
+  packageName: string;
+  severity: Severity | 'unknown';
+}
+
+const SEVERITIES: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+export function scanReports(reportDir: string): ScanReports {
+  return {
+    json: path.join(reportDir, 'report.json'),
+    sarif: path.join(reportDir, 'report.sarif'),
+  };
+}
+
+/**
+ * Commands that scan a locally built image and write the JSON and SARIF
+ * reports. The scan itself never fails on findings; the executor decides that
+ * from the JSON report with `failOnSeverity`.
+ */
+export function scanCommands(
+  image: string,
+  engine: EngineName,
+  options: ScanOptions & { reportDir: string }
+): ScanCommand[] {
+  const reports = scanReports(options.reportDir);
+  // Podman and Buildah share the containers storage.
+  const daemonless = engine === 'podman' || engine === 'buildah';
+
+  if ((options.scanner ?? 'trivy') === 'grype') {
+    const args = [
+      `${daemonless ? 'podman' : 'docker'}:${image}`,
+      '-o',
+      `json=${reports.json}`,
+      '-o',
+      `sarif=${reports.sarif}`,
+    ];
+    if (options.ignoreFile) {
+      args.push('--config', options.ignoreFile);
+    }
+    return [
+      {
+        command: 'grype',
+        args,
+        env: options.offline ? { GRYPE_DB_AUTO_UPDATE: 'false' } : undefined,
+      },
+    ];
+  }
+
+  const args = ['image', '--format', 'json', '--output', reports.json];
+  if (daemonless) {
+    args.push('--image-src', 'podman');
+  }
+  if (options.ignoreFile) {
+    args.push('--ignorefile', options.ignoreFile);
+  }
+  if (options.offline) {
+    args.push('--skip-db-update');
+  }
+  args.push(image);
+  return [
+    { command: 'trivy', args },
+    {
+      command: 'trivy',
+      args: [
+        'convert',
+        '--format',
+        'sarif',
+        '--output',
+        reports.sarif,
+        reports.json,
+      ],
+    },
+  ];
+}
+
+function toSeverity(value: string | undefined): Severity | 'unknown' {
+  const severity = value?.toLowerCase();
+  if (severity === 'negligible') {
+    return 'low';
+  }
+  return SEVERITIES.includes(severity as Severity)
+    ? (severity as Severity)
+    : 'unknown';
+}
+
+/**
+ * Reads the vulnerabilities from a Trivy or Grype JSON report.
+ */
+export function readVulnerabilities(
+  scanner: ScannerName,
+  jsonReport: string
+): Vulnerability[] {
+  const report = JSON.parse(readFileSync(jsonReport, 'utf-8'));
+  if (scanner === 'grype') {
+    return (report.matches ?? []).map((match) => ({
+      id: match.vulnerability.id,
+      packageName: match.artifact.name,
+      severity: toSeverity(match.vulnerability.severity),
+    }));
+  }
+  return (report.Results ?? []).flatMap((result) =>
+    (result.Vulnerabilities ?? []).map((vulnerability) => ({
+      id: vulnerability.VulnerabilityID,
+      packageName: vulnerability.PkgName,
+      severity: toSeverity(vulnerability.Severity),
+    }))
+  );
+}
+
+/**
+ * Returns the vulnerabilities at or above `failOnSeverity`.
+ */
+export function blockingVulnerabilities(
+  vulnerabilities: Vulnerability[],
+  failOnSeverity: Severity | 'none'
+): Vulnerability[] {
+  if (failOnSeverity === 'none') {
+    return [];
+  }
+  const threshold = SEVERITIES.indexOf(failOnSeverity);
+  return vulnerabilities.filter(
+    ({ severity }) =>
+      severity !== 'unknown' && SEVERITIES.indexOf(severity) >= threshold
+  );
+}
+
+/**
+ * Counts vulnerabilities per severity, e.g. `critical: 1, high: 3`.
+ */
+export function summarizeVulnerabilities(
+  vulnerabilities: Vulnerability[]
+): string {
+  const counts = new Map<string, number>();
+  vulnerabilities.forEach(({ severity }) =>
+    counts.set(severity, (counts.get(severity) ?? 0) + 1)
+  );
+  return ['critical', 'high', 'medium', 'low', 'unknown']
+    .filter((severity) => counts.has(severity))
+    .map((severity) => `${severity}: ${counts.get(severity)}`)
+    .join(', ');
+}
@@ -0,0 +1,85 @@
+import {
+  compareSemver,
+  parseSemver,
+  toPrereleaseIdentifier,
+  withoutBuildMetadata,
+} from './semver';
+
+describe('semver', () => {
+  describe('parseSemver', () => {
+    it('should parse versions with prerelease and build metadata', () => {
+      expect(parseSemver('1.2.3-beta.1+build.5')).toEqual({
+        major: 1,
+        minor: 2,
+        patch: 3,
+        prerelease: ['beta', '1'],
+        build: ['build', '5'],
+        version: '1.2.3-beta.1+build.5',
+      });
+    });
+
+    it('should accept and drop a leading v', () => {
+      expect(parseSemver('v1.2.3')?.version).toBe('1.2.3');
+    });
+
+    it.each(['1.2', '1', '01.2.3', '1.2.3-', '1.2.3-beta..1', 'latest'])(
+      'should reject %s',
+      (version) => {
+        expect(parseSemver(version)).toBeNull();
+      }
+    );
+  });
+
+  describe('withoutBuildMetadata', () => {
+    it('should keep the prerelease and drop the build metadata', () => {
+      expect(withoutBuildMetadata(parseSemver('1.2.3-rc.1+sha.abc'))).toBe(
+        '1.2.3-rc.1'
+      );
+    });
+  });
+
+  describe('toPrereleaseIdentifier', () => {
+    it('should replace characters not allowed in prerelease identifiers', () => {
+      expect(toPrereleaseIdentifier('feature/JIRA-12_login')).toBe(
+        'feature-JIRA-12-login'
+      );
+    });
+
+    it('should avoid numeric identifiers with leading zeros', () => {
+      expect(toPrereleaseIdentifier('0123456')).toBe('g0123456');
+      expect(toPrereleaseIdentifier('1234567')).toBe('1234567');
+    });
+  });
+
+  describe('compareSemver', () => {
+    const sorted = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+      '1.0.1',
+      '1.1.0',
+      '2.0.0',
+    ];
+
+    it('should order versions by SemVer precedence', () => {
+      const shuffled = [...sorted].reverse();
+      expect(
+        shuffled
+          .map(parseSemver)
+          .sort(compareSemver)
+          .map((v) => v.version)
+      ).toEqual(sorted);
+    });
+
+    it('should ignore build metadata', () => {
+      expect(
+        compareSemver(parseSemver('1.0.0+a'), parseSemver('1.0.0+b'))
+      ).toBe(0);
+    });
+  });
+});
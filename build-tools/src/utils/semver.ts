@@ -0,0 +1,100 @@
+/**
+ * The official SemVer 2.0.0 grammar (https://semver.org), with an optional
+ * leading `v` as commonly used in Git tags.
+ */
+const SEMVER_PATTERN =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+  build: string[];
+  /** The normalized version, without a leading `v`. */
+  version: string;
+}
+
+/**
+ * Parses a SemVer version, returning `null` if it is not valid.
+ */
+export function parseSemver(value: string): SemVer | null {
+  const match = value.trim().match(SEMVER_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const [, major, minor, patch, prerelease, build] = match;
+  return {
+    major: Number(major),
+    minor: Number(minor),
+    patch: Number(patch),
+    prerelease: prerelease ? prerelease.split('.') : [],
+    build: build ? build.split('.') : [],
+    version: value.trim().replace(/^v/, ''),
+  };
+}
+
+export function isPrerelease(version: SemVer): boolean {
+  return version.prerelease.length > 0;
+}
+
+/**
+ * The version without build metadata. `+` is not allowed in Docker tags, and
+ * build metadata does not take part in precedence anyway.
+ */
+export function withoutBuildMetadata(version: SemVer): string {
+  const core = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease.length
+    ? `${core}-${version.prerelease.join('.')}`
+    : core;
+}
+
+/**
+ * Turns an arbitrary value such as a branch name into a valid prerelease
+ * identifier (`[0-9A-Za-z-]`, no leading zeros on numeric identifiers).
+ */
+export function toPrereleaseIdentifier(value: string): string {
+  const identifier = value
+    .replace(/[^0-9A-Za-z-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return /^0\d+$/.test(identifier) ? `g${identifier}` : identifier;
+}
+
+function compareIdentifiers(a: string, b: string): number {
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+  if (aNumeric && bNumeric) {
+    return Number(a) - Number(b);
+  }
+  if (aNumeric !== bNumeric) {
+    return aNumeric ? -1 : 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compares two versions by SemVer precedence. Returns a negative number if
+ * `a` is lower, a positive number if it is higher and `0` if they are equal.
+ */
+export function compareSemver(a: SemVer, b: SemVer): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) {
+    return core;
+  }
+  if (!a.prerelease.length || !b.prerelease.length) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    if (a.prerelease[i] === undefined) {
+      return -1;
+    }
+    if (b.prerelease[i] === undefined) {
+      return 1;
+    }
+    const result = compareIdentifiers(a.prerelease[i], b.prerelease[i]);
+    if (result !== 0) {
+      return result;
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,111 @@
+import {
+  renderTagTemplate,
+  renderTagTemplates,
+  TagTemplateValues,
+  toDockerTag,
+} from './tags';
+
+describe('tags', () => {
+  const values: TagTemplateValues = {
+    version: '1.2.3',
+    major: 1,
+    minor: 2,
+    patch: 3,
+    prerelease: false,
+    sha: 'abc1234def5678abc1234def5678abc1234def56',
+    branch: 'feature/JIRA-42_login',
+    defaultBranch: 'main',
+    date: new Date('2025-07-31T08:09:10Z'),
+  };
+
+  describe('toDockerTag', () => {
+    it('should replace invalid characters and trim separators', () => {
+      expect(toDockerTag('feature/JIRA-42 login!')).toBe(
+        'feature-JIRA-42-login'
+      );
+      expect(toDockerTag('.hidden-')).toBe('hidden');
+      expect(toDockerTag('1.2.3+build.5')).toBe('1.2.3-build.5');
+    });
+
+    it('should limit tags to 128 characters', () => {
+      expect(toDockerTag('a'.repeat(200))).toHaveLength(128);
+    });
+  });
+
+  describe('renderTagTemplate', () => {
+    it.each([
+      ['{version}', '1.2.3'],
+      ['{major}.{minor}', '1.2'],
+      ['{sha}', 'abc1234'],
+      ['{shortSha:10}', 'abc1234def'],
+      ['{branch}-{sha}', 'feature-JIRA-42_login-abc1234'],
+      ['nightly-{date:YYYYMMDD}', 'nightly-20250731'],
+      ['{date:YYYYMMDD-HHmmss}', '20250731-080910'],
+    ])('should render %s as %s', (template, expected) => {
+      expect(renderTagTemplate(template, values)).toBe(expected);
+    });
+
+    it('should read environment variables', () => {
+      process.env.TEST_PIPELINE_ID = '987';
+      expect(renderTagTemplate('build-{env.TEST_PIPELINE_ID}', values)).toBe(
+        'build-987'
+      );
+      delete process.env.TEST_PIPELINE_ID;
+    });
+
+    it('should fail for SemVer placeholders without a SemVer version', () => {
+      expect(() =>
+        renderTagTemplate('{major}', { ...values, major: undefined })
+      ).toThrow('the version is not SemVer');
+    });
+
+    it.each(['{shortSha:abc}', '{shortSha:0}', '{shortSha:-3}'])(
+      'should fail for %s',
+      (template) => {
+        expect(() => renderTagTemplate(`x-${template}`, values)).toThrow(
+          `Invalid length in '${template}'`
+        );
+      }
+    );
+
+    it('should fail for unknown placeholders', () => {
+      expect(() => renderTagTemplate('{build}', values)).toThrow(
+        "Unknown placeholder '{build}'"
+      );
+    });
+  });
+
+  describe('renderTagTemplates', () => {
+    it('should only render templates whose conditions hold', () => {
+      const templates = [
+        '{version}',
+        { template: '{major}.{minor}', if: 'stable' as const },
+        { template: 'edge', if: 'default-branch' as const },
+        { template: '{branch}', if: 'other-branch' as const },
+      ];
+
+      expect(renderTagTemplates(templates, values)).toEqual([
+        '1.2.3',
+        '1.2',
+        'feature-JIRA-42_login',
+      ]);
+      expect(
+        renderTagTemplates(templates, {
+          ...values,
+          branch: 'main',
+          prerelease: true,
+        })
+      ).toEqual(['1.2.3', 'edge']);
+    });
+
+    it('should skip templates that render empty', () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+
+      expect(
+        renderTagTemplates(['{version}', '{env.TEST_UNSET_VAR}'], values)
+      ).toEqual(['1.2.3']);
+
+      jest.restoreAllMocks();
+    });
+  });
+});
@@ -0,0 +1,180 @@
+const MAX_TAG_LENGTH = 128;
+
+/**
+ * Turns an arbitrary value (a branch name, a version with build metadata, ...)
+ * into a valid Docker tag: `[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}`.
+ */
+export function toDockerTag(value: string): string {
+  return value
+    .replace(/[^A-Za-z0-9_.-]+/g, '-')
+    .replace(/^[.-]+/, '')
+    .substring(0, MAX_TAG_LENGTH)
+    .replace(/[.-]+$/, '');
+}
+
+export type TagCondition =
+  | 'stable'
+  | 'prerelease'
+  | 'default-branch'
+  | 'other-branch';
+
+export type TagTemplate =
+  | string
+  | { template: string; if?: TagCondition | TagCondition[] };
+
+export interface TagTemplateValues {
+  version: string;
+  major?: number;
+  minor?: number;
+  patch?: number;
+  /** First prerelease identifier that is not a number, e.g. `beta`. */
+  channel?: string;
+  prerelease: boolean;
+  sha: string;
+  branch?: string | null;
+  defaultBranch: string;
+  date: Date;
+}
+
+const TEMPLATE_PLACEHOLDER = /\{([^{}:]+)(?::([^{}]+))?\}/g;
+
+function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getUTCFullYear()),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => tokens[token]);
+}
+
+function requireValue<T>(
+  value: T | null | undefined,
+  placeholder: string,
+  reason: string
+): T {
+  if (value === undefined || value === null) {
+    throw new Error(`Cannot render ${placeholder}: ${reason}.`);
+  }
+  return value;
+}
+
+/**
+ * Renders a tag template such as `{major}.{minor}`, `{shortSha:10}` or
+ * `build-{date:YYYYMMDD}-{env.CI_PIPELINE_ID}` and sanitizes the result into
+ * a valid Docker tag.
+ */
+export function renderTagTemplate(
+  template: string,
+  values: TagTemplateValues
+): string {
+  const rendered = template.replace(
+    TEMPLATE_PLACEHOLDER,
+    (placeholder, name: string, arg?: string) => {
+      const semverOnly = 'the version is not SemVer';
+      switch (name) {
+        case 'version':
+          return values.version;
+        case 'major':
+        case 'minor':
+        case 'patch':
+          return String(requireValue(values[name], placeholder, semverOnly));
+        case 'channel':
+          return requireValue(
+            values.channel,
+            placeholder,
+            'the version is not a prerelease'
+          );
+        case 'sha':
+          return values.sha.substring(0, 7);
+        case 'shortSha':
+          if (arg !== undefined && !/^[1-9][0-9]*$/.test(arg)) {
+            throw new Error(
+              `Invalid length in '${placeholder}' of tag template '${template}'. Use a positive number like {shortSha:10}.`
+            );
+          }
+          return values.sha.substring(0, arg ? Number(arg) : 7);
+        case 'fullSha':
+          return values.sha;
+        case 'branch':
+          return requireValue(
+            values.branch,
+            placeholder,
+            'the current branch is unknown'
+          );
+        case 'date':
+          return formatDate(values.date, arg ?? 'YYYYMMDD');
+        default:
+          if (name.startsWith('env.')) {
+            return process.env[name.substring('env.'.length)] ?? '';
+          }
+          throw new Error(
+            `Unknown placeholder '${placeholder}' in tag template '${template}'.`
+          );
+      }
+    }
+  );
+  return toDockerTag(rendered);
+}
+
+function matchesCondition(
+  condition: TagCondition,
+  values: TagTemplateValues
+): boolean {
+  switch (condition) {
+    case 'stable':
+      return !values.prerelease;
+    case 'prerelease':
+      return values.prerelease;
+    case 'default-branch':
+      return values.branch === values.defaultBranch;
+    case 'other-branch':
+      return values.branch !== values.defaultBranch;
+    default:
+      throw new Error(`Unknown tag condition '${condition}'.`);
+  }
+}
+
+/**
+ * Renders all tag templates whose conditions hold. Templates that render to
+ * an empty tag (e.g. an unset environment variable) are skipped.
+ */
+export function renderTagTemplates(
+  templates: TagTemplate[],
+  values: TagTemplateValues
+): string[] {
+  const tags: string[] = [];
+  for (const entry of templates) {
+    const { template, if: conditions } =
+      typeof entry === 'string' ? { template: entry, if: undefined } : entry;
+    const required = ([] as TagCondition[]).concat(conditions ?? []);
+    if (!required.every((condition) => matchesCondition(condition, values))) {
+      continue;
+    }
+    const tag = renderTagTemplate(template, values);
+    if (tag) {
+      tags.push(tag);
+    } else {
+      console.warn(`Warning: Tag template '${template}' rendered empty.`);
+    }
+  }
+  return tags;
+}
+
+/**
+ * Whether any template needs the current branch, so it is only looked up
+ * when necessary.
+ */
+export function templatesUseBranch(templates: TagTemplate[]): boolean {
+  return templates.some((entry) =>
+    typeof entry === 'string'
+      ? entry.includes('{branch}')
+      : entry.template.includes('{branch}') ||
+        ([] as TagCondition[])
+          .concat(entry.if ?? [])
+          .some((c) => c === 'default-branch' || c === 'other-branch')
+  );
+}
@@ -0,0 +1,94 @@
+import {
+  compareSemver,
+  isPrerelease,
+  parseSemver,
+  SemVer,
+  withoutBuildMetadata,
+} from './semver';
+import { toDockerTag } from './tags';
+import { listReleasedVersions } from './version';
+
+export interface VersionTagOptions {
+  generateMajorMinor?: boolean;
+  prereleaseChannelTag?: boolean;
+}
+
+/**
+ * The tag of the version itself. Build metadata is dropped, as `+` is not
+ * allowed in tags.
+ */
+export function versionTag(semver: SemVer | null, version: string): string {
+  return toDockerTag(semver ? withoutBuildMetadata(semver) : version);
+}
+
+/**
+ * The prerelease channel of a version, e.g. `beta` for `1.2.3-beta.1`.
+ */
+export function prereleaseChannel(semver: SemVer | null): string | undefined {
+  return semver?.prerelease.find((id) => !/^\d+$/.test(id));
+}
+
+/**
+ * The tags of a release: the version, `major.minor` and `major` for releases
+ * with `generateMajorMinor`, and the channel of prereleases with
+ * `prereleaseChannelTag`.
+ */
+export function versionTags(
+  semver: SemVer | null,
+  version: string,
+  { generateMajorMinor, prereleaseChannelTag }: VersionTagOptions
+): string[] {
+  const tags = [versionTag(semver, version)];
+  if (generateMajorMinor && !semver) {
+    console.warn(
+      `Warning: Skipping major and minor tags, '${version}' is not a SemVer version.`
+    );
+  } else if (generateMajorMinor && isPrerelease(semver)) {
+    console.log(
+      `Skipping major and minor tags for prerelease version ${version}`
+    );
+  } else if (generateMajorMinor) {
+    tags.push(`${semver.major}.${semver.minor}`, `${semver.major}`);
+  }
+
+  const channel = prereleaseChannel(semver);
+  if (prereleaseChannelTag && channel) {
+    tags.push(toDockerTag(channel));
+  }
+  return tags;
+}
+
+/**
+ * Whether `latest` may point to this version: only releases are tagged, and
+ * only when no newer release of the project was tagged in Git.
+ */
+export async function isLatestRelease(
+  appName: string,
+  semver: SemVer | null,
+  releaseTagPattern: string
+): Promise<boolean> {
+  if (!semver || isPrerelease(semver)) {
+    return false;
+  }
+  try {
+    const released = await listReleasedVersions(appName, releaseTagPattern);
+    const newerRelease = released
+      .map(parseSemver)
+      .find(
+        (other) =>
+          other && !isPrerelease(other) && compareSemver(other, semver) > 0
+      );
+    if (newerRelease) {
+      console.log(
+        `Not tagging 'latest': ${newerRelease.version} is newer than ${semver.version}`
+      );
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.warn(
+      `Warning: Could not list released versions of '${appName}', not tagging 'latest': ${error}`
+    );
+    return false;
+  }
+}
@@ -0,0 +1,77 @@
+import { readVersionFromFile } from './version';
+
+describe('readVersionFromFile', () => {
+  it('should read the first line of a plain version file', () => {
+    expect(readVersionFromFile('apps/api/VERSION', '1.2.3\n')).toBe('1.2.3');
+  });
+
+  it('should read the chart version from Chart.yaml', () => {
+    const chart = [
+      'apiVersion: v2',
+      'name: api',
+      'version: "0.4.1" # bumped by release',
+      'appVersion: 1.2.3',
+    ].join('\n');
+
+    expect(readVersionFromFile('charts/api/Chart.yaml', chart)).toBe('0.4.1');
+  });
+
+  it('should only read the package version from Cargo.toml', () => {
+    const cargo = [
+      '[workspace]',
+      'members = []',
+      '',
+      '[package]',
+      'name = "api"',
+      'authors = ["Jane <jane@example.com>"]',
+      'version = "2.0.0-rc.1"',
+      '',
+      '[dependencies]',
+      'tokio = { version = "1" }',
+    ].join('\n');
+
+    expect(readVersionFromFile('Cargo.toml', cargo)).toBe('2.0.0-rc.1');
+  });
+
+  it('should read project and poetry versions from pyproject.toml', () => {
+    expect(
+      readVersionFromFile(
+        'pyproject.toml',
+        '[build-system]\nrequires = []\n\n[project]\nname = "api"\nversion = "3.4.5"\n'
+      )
+    ).toBe('3.4.5');
+    expect(
+      readVersionFromFile(
+        'pyproject.toml',
+        '[tool.poetry]\nname = "api"\nversion = "0.9.0"\n'
+      )
+    ).toBe('0.9.0');
+    expect(
+      readVersionFromFile(
+        'pyproject.toml',
+        [
+          '[project]',
+          'name = "api"',
+          'classifiers = [',
+          '  "Programming Language :: Python :: 3",',
+          ']',
+          'version = "3.5.0"',
+          '',
+          '[tool.ruff]',
+          'version = "0.1"',
+        ].join('\n')
+      )
+    ).toBe('3.5.0');
+  });
+
+  it('should return null when the file has no version', () => {
+    expect(readVersionFromFile('Chart.yaml', 'name: api\n')).toBeNull();
+    expect(
+      readVersionFromFile(
+        'Cargo.toml',
+        '[package]\nname = "api"\n\n[dependencies]\nversion = "1"\n'
+      )
+    ).toBeNull();
+    expect(readVersionFromFile('VERSION', '\n')).toBeNull();
+  });
+});
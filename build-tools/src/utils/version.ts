@@ -0,0 +1,265 @@
+import { exec, execFile } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { promisify } from 'util';
+import { readJsonFile } from '@nx/devkit';
+import { releaseTagGlob, releaseTagRegExp } from './release-tag';
+
+import path = require('path');
+
+export type VersionResolverName =
+  | 'package-json'
+  | 'project-json'
+  | 'git-tag'
+  | 'git-describe'
+  | 'file'
+  | 'env';
+
+/**
+ * Where a resolved version came from; `option` is an explicit `version` and
+ * `snapshot` a version derived from the branch or pull request.
+ */
+export type VersionSource = VersionResolverName | 'option' | 'snapshot';
+
+export interface VersionResolverContext {
+  appName: string;
+  projectRoot: string;
+  workspaceRoot: string;
+  /** Release tag pattern with `{projectName}` and `{version}` placeholders. */
+  gitTagPattern: string;
+  /** Version file relative to the project root, for the `file` resolver. */
+  versionFile?: string;
+  /** Environment variable for the `env` resolver. */
+  versionEnvVar?: string;
+}
+
+export interface ResolvedVersion {
+  version: string;
+  source: VersionSource;
+}
+
+/**
+ * A resolver returns `null` when its source has no version, so the next one
+ * can be tried, and throws when the source is broken in a way that should
+ * stop the build (e.g. Git is not available).
+ */
+type VersionResolver = (ctx: VersionResolverContext) => Promise<string | null>;
+
+const resolvePackageJson: VersionResolver = async (ctx) => {
+  const packageJsonPath = path.join(ctx.projectRoot, 'package.json');
+  try {
+    const packageJson = readJsonFile(packageJsonPath);
+    if (packageJson.version) {
+      console.log(`Found version ${packageJson.version} in package.json`);
+      return packageJson.version;
+    }
+    console.warn(
+      `Warning: Version is not set in package.json for '${ctx.appName}'.`
+    );
+  } catch (readError) {
+    console.warn(
+      `Warning: Could not read package.json for '${ctx.appName}' at ${packageJsonPath}: ${readError}.`
+    );
+  }
+  return null;
+};
+
+const resolveProjectJson: VersionResolver = async (ctx) => {
+  const projectJsonPath = path.join(
+    ctx.workspaceRoot,
+    ctx.projectRoot,
+    'project.json'
+  );
+  if (!existsSync(projectJsonPath)) {
+    console.warn(`Warning: No project.json found for '${ctx.appName}'.`);
+    return null;
+  }
+  const projectJson = readJsonFile(projectJsonPath);
+  if (projectJson.version) {
+    console.log(`Found version ${projectJson.version} in project.json`);
+    return projectJson.version;
+  }
+  console.warn(
+    `Warning: Version is not set in project.json for '${ctx.appName}'.`
+  );
+  return null;
+};
+
+const resolveGitTag: VersionResolver = async (ctx) => {
+  console.log('Attempting to derive version from Git tags...');
+  const { stdout: gitTagsOutput } = await promisify(exec)(
+    `git tag --points-at HEAD`
+  );
+  const tags = gitTagsOutput.trim().split('\n').filter(Boolean);
+
+  const targetTagPattern = releaseTagRegExp(ctx.gitTagPattern, ctx.appName);
+  const relevantTag = tags.find((tag) => targetTagPattern.test(tag));
+  if (!relevantTag) {
+    console.warn(
+      `Warning: No Git tags at HEAD for ${ctx.appName} match '${ctx.gitTagPattern}'`
+    );
+    return null;
+  }
+
+  const version = relevantTag.match(targetTagPattern)[1];
+  console.log(`Extracted version ${version} from Git tag ${relevantTag}`);
+  return version;
+};
+
+const resolveGitDescribe: VersionResolver = async (ctx) => {
+  let tag: string;
+  try {
+    const { stdout } = await promisify(execFile)('git', [
+      'describe',
+      '--tags',
+      '--abbrev=0',
+      '--match',
+      releaseTagGlob(ctx.gitTagPattern, ctx.appName),
+    ]);
+    tag = stdout.trim();
+  } catch {
+    console.warn(`Warning: No Git tag reachable from HEAD for ${ctx.appName}.`);
+    return null;
+  }
+
+  const match = tag.match(releaseTagRegExp(ctx.gitTagPattern, ctx.appName));
+  if (!match || !match[1]) {
+    return null;
+  }
+  console.log(`Found version ${match[1]} in latest reachable Git tag ${tag}`);
+  return match[1];
+};
+
+/**
+ * Reads `version = "…"` from the first of the TOML `tables` that has one,
+ * looking at the lines up to the next table header.
+ */
+function readTomlVersion(content: string, tables: string[]): string | null {
+  let table: string | null = null;
+  for (const line of content.split(/\r?\n/)) {
+    const header = line.match(
+      /^\s*\[{1,2}\s*([\w.\-"' ]+?)\s*\]{1,2}\s*(#.*)?$/
+    );
+    if (header) {
+      table = header[1];
+      continue;
+    }
+    const version = line.match(/^\s*version\s*=\s*["']([^"']+)["']/);
+    if (version && tables.includes(table)) {
+      return version[1];
+    }
+  }
+  return null;
+}
+
+/**
+ * Extracts the version from well-known version files. Anything not
+ * recognised by name is treated as a plain text file like `VERSION`.
+ */
+export function readVersionFromFile(
+  filePath: string,
+  content: string
+): string | null {
+  const fileName = path.basename(filePath);
+
+  if (fileName === 'Chart.yaml') {
+    return content.match(/^version:\s*["']?([^"'\s#]+)/m)?.[1] ?? null;
+  }
+  if (fileName === 'Cargo.toml') {
+    return readTomlVersion(content, ['package']);
+  }
+  if (fileName === 'pyproject.toml') {
+    return readTomlVersion(content, ['project', 'tool.poetry']);
+  }
+  const version = content.trim().split('\n')[0]?.trim();
+  return version || null;
+}
+
+const resolveFile: VersionResolver = async (ctx) => {
+  if (!ctx.versionFile) {
+    throw new Error(`The 'file' version resolver requires 'versionFile'.`);
+  }
+  const filePath = path.join(
+    ctx.workspaceRoot,
+    ctx.projectRoot,
+    ctx.versionFile
+  );
+  if (!existsSync(filePath)) {
+    console.warn(`Warning: Version file ${filePath} does not exist.`);
+    return null;
+  }
+  const version = readVersionFromFile(
+    filePath,
+    readFileSync(filePath, 'utf-8')
+  );
+  if (version) {
+    console.log(`Found version ${version} in ${ctx.versionFile}`);
+  } else {
+    console.warn(`Warning: No version found in ${filePath}.`);
+  }
+  return version;
+};
+
+const resolveEnv: VersionResolver = async (ctx) => {
+  const name = ctx.versionEnvVar || 'APP_VERSION';
+  const version = process.env[name]?.trim();
+  if (version) {
+    console.log(`Found version ${version} in environment variable ${name}`);
+    return version;
+  }
+  console.warn(`Warning: Environment variable ${name} is not set.`);
+  return null;
+};
+
+const versionResolvers: Record<VersionResolverName, VersionResolver> = {
+  'package-json': resolvePackageJson,
+  'project-json': resolveProjectJson,
+  'git-tag': resolveGitTag,
+  'git-describe': resolveGitDescribe,
+  file: resolveFile,
+  env: resolveEnv,
+};
+
+/**
+ * Tries the given resolvers in order and returns the first version found,
+ * or `null` if none of them has one.
+ */
+export async function resolveVersion(
+  order: VersionResolverName[],
+  ctx: VersionResolverContext
+): Promise<ResolvedVersion | null> {
+  for (const name of order) {
+    const resolver = versionResolvers[name];
+    if (!resolver) {
+      throw new Error(
+        `Unknown version resolver '${name}'. Use one of: ${Object.keys(
+          versionResolvers
+        ).join(', ')}.`
+      );
+    }
+    const version = await resolver(ctx);
+    if (version) {
+      return { version, source: name };
+    }
+  }
+  return null;
+}
+
+/**
+ * Lists the versions of all release tags of a project, in no particular
+ * order.
+ */
+export async function listReleasedVersions(
+  appName: string,
+  gitTagPattern: string
+): Promise<string[]> {
+  const { stdout } = await promisify(execFile)('git', [
+    'tag',
+    '--list',
+    releaseTagGlob(gitTagPattern, appName),
+  ]);
+  const pattern = releaseTagRegExp(gitTagPattern, appName);
+  return stdout
+    .split('\n')
+    .map((tag) => tag.trim().match(pattern)?.[1])
+    .filter((version): version is string => !!version);
+}